@@ -93,7 +93,16 @@ pub async fn network_fetch(
   // Load response body
   let body: Value = {
     match response_type.as_str() {
-      "json" => response.json().await.map_err(map_reqwest_err).map(|res| Value::Object(res)),
+      "json" => {
+        let text = response.text().await.map_err(map_reqwest_err)?;
+        match serde_json::from_str::<Value>(&text) {
+          Ok(res) => Ok(res),
+          // Error responses (e.g. 429, or 400/404 with an empty body) may not be JSON,
+          // return them as text so the caller can still handle the status and headers
+          Err(_) if !(200..300).contains(&status) => Ok(Value::String(text)),
+          Err(err) => Err(err.to_string()),
+        }
+      },
       "text" => response.text().await.map_err(map_reqwest_err).map(|res| Value::String(res)),
       "binary" => {
         let bytes = response.bytes().await.map_err(map_reqwest_err)?;
@@ -5,6 +5,8 @@ import { ConfigProvider, App as AntApp } from 'antd';
 import zhCN from 'antd/locale/zh_CN';
 import React from 'react';
 import { SideBar } from './components/SideBar';
+import { VaultUnlock } from './components/VaultUnlock';
+import { SessionExpiredBanner } from './components/SessionExpiredBanner';
 import { ANTD_THEME } from './constants/antd-theme';
 import { useBootstrap } from './hooks/useBootstrap';
 import { useRunBackgroundTasks } from './hooks/useRunBackgroundTasks';
@@ -20,7 +22,10 @@ const AppInternal: React.FC = () => {
     const appState = useAppStateStore.getState();
     log.info('AppStates', {
       ...appState,
-      cookieString: appState.cookieString ? '******' : '[empty]',
+      accounts: appState.accounts.map((account) => ({
+        ...account,
+        cookieString: account.cookieString ? '******' : '[empty]',
+      })),
     });
   });
 
@@ -34,6 +39,7 @@ const AppInternal: React.FC = () => {
         key={currentRoute?.id}
         aria-label={currentRoute?.name}
       >
+        <SessionExpiredBanner />
         <div className="px-10">{currentRoute?.element}</div>
       </main>
     </div>
@@ -41,7 +47,7 @@ const AppInternal: React.FC = () => {
 };
 
 export const App: React.FC = () => {
-  const { ready, error } = useBootstrap();
+  const { ready, error, locked, unlock, resetVault } = useBootstrap();
 
   return (
     <ConfigProvider
@@ -51,7 +57,10 @@ export const App: React.FC = () => {
     >
       <AntApp>
         <div className="css-var-r0 select-none text-gray-800 relative w-screen h-screen flex flex-col overflow-hidden">
-          {!ready && (
+          {!ready && locked && (
+            <VaultUnlock onUnlock={unlock} onReset={resetVault} />
+          )}
+          {!ready && !locked && (
             <div className="w-screen h-screen flex flex-col items-center justify-center">
               {!error && (
                 <>
@@ -1,39 +1,80 @@
 /* eslint-disable react/prop-types */
-import { App, Avatar, Form, Input, Modal } from 'antd';
+import { App, Avatar, Button, Dropdown, Form, Input, Modal, Radio } from 'antd';
+import { dialog, fs } from '@tauri-apps/api';
 import React, { useEffect, useState } from 'react';
-import { useAppStateStore } from '../stores/app-state';
-import { getAccountInfo } from '../twitter/api';
+import * as R from 'ramda';
+import { selectCurrentAccount, useAppStateStore } from '../stores/app-state';
+import { getAccountInfo, getUser } from '../twitter/api';
 import { TwitterAccountInfo } from '../interfaces/TwitterAccountInfo';
-import { LogoutOutlined, QuestionCircleOutlined } from '@ant-design/icons';
+import {
+  BookFilled,
+  HeartFilled,
+  LogoutOutlined,
+  PlusOutlined,
+  QuestionCircleOutlined,
+  SwapOutlined,
+} from '@ant-design/icons';
 import FormItem from 'antd/es/form/FormItem';
 import { useForm } from 'antd/es/form/Form';
-import { parseCookie, stringifyCookie } from '../utils/cookie';
+import {
+  getMissingTwitterCookies,
+  parseImportedCookies,
+  stringifyCookie,
+} from '../utils/cookie';
 import clsx from 'clsx';
+import { useDownloadStore } from '../stores/download';
+import { onReloginRequested, useSessionStore } from '../stores/session';
+import { SessionExpiredError } from '../errors/SessionExpiredError';
+import { useEvent } from '../hooks/useEvent';
+import { TwitterAccount } from '../interfaces/TwitterAccount';
+import { useHomepageStore } from '../stores/homepage';
+import { DownloadFilter } from '../interfaces/DownloadFilter';
 
 export const Account: React.FC = () => {
-  const [cookieString, setCookieString] = useAppStateStore((state) => [
-    state.cookieString,
-    state.setCookieString,
-  ]);
+  const {
+    accounts,
+    currentAccount,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    setCurrentAccountId,
+  } = useAppStateStore((state) => ({
+    accounts: state.accounts,
+    currentAccount: selectCurrentAccount(state),
+    addAccount: state.addAccount,
+    updateAccount: state.updateAccount,
+    removeAccount: state.removeAccount,
+    setCurrentAccountId: state.setCurrentAccountId,
+  }));
   const [modalOpen, setModalOpen] = useState(false);
   const [modalLoading, setModalLoading] = useState(false);
+  const [inputMode, setInputMode] = useState<'manual' | 'import'>('manual');
+  const [reloginAccount, setReloginAccount] = useState<TwitterAccount>();
   const [accountInfo, setAccountInfo] = useState<TwitterAccountInfo | null>(
     null,
   );
   const [loading, setLoading] = useState(false);
   const [form] = useForm();
-  const { message } = App.useApp();
+  const { message, modal } = App.useApp();
+  const createCreationTask = useDownloadStore((s) => s.createCreationTask);
 
   useEffect(() => {
     (async () => {
-      if (!cookieString) {
+      if (!currentAccount) {
         setAccountInfo(null);
       } else {
         setLoading(true);
         try {
-          const accountInfo = await getAccountInfo(cookieString);
+          const accountInfo = await getAccountInfo(currentAccount);
           setAccountInfo(accountInfo);
+          const { accounts } = useAppStateStore.getState();
+          const account = accounts.find((a) => a.id === currentAccount.id);
+          if (account) updateAccount({ ...account, ...accountInfo });
         } catch (err: any) {
+          setAccountInfo(null);
+          if (err instanceof SessionExpiredError) {
+            useSessionStore.getState().markSessionExpired(currentAccount);
+          }
           message.error('获取账号信息失败，请检查 Cookie 或代理配置是否正确');
           log.error(err);
         } finally {
@@ -41,17 +82,116 @@ export const Account: React.FC = () => {
         }
       }
     })();
-  }, [cookieString]);
+  }, [
+    currentAccount?.id,
+    currentAccount?.cookieString,
+    currentAccount?.proxyUrl,
+  ]);
+
+  /**
+   * 导入时保留推特域名下的全部 Cookie，手动填写时只有必需的两项
+   */
+  const resolveCookies = (values: any): Record<string, string> | null => {
+    if (inputMode === 'manual') {
+      return R.pick(['auth_token', 'ct0'], values);
+    }
+
+    let cookies: Record<string, string>;
+    try {
+      cookies = parseImportedCookies(values.cookieText || '');
+    } catch (err: any) {
+      log.error(err);
+      message.error(`无法解析导入的 Cookie：${err?.message || '未知原因'}`);
+      return null;
+    }
+
+    const missing = getMissingTwitterCookies(cookies);
+    if (missing.length > 0) {
+      message.error(
+        `导入的 Cookie 中缺少 ${missing.join('、')}，请确认已登录 x.com 后再导出`,
+      );
+      return null;
+    }
+    return cookies;
+  };
+
+  const onImportFile = async () => {
+    const filePath = await dialog.open({
+      title: '选择 Cookie 文件',
+      filters: [{ name: 'Cookie', extensions: ['txt', 'json'] }],
+    });
+    if (!filePath || Array.isArray(filePath)) return;
+
+    try {
+      form.setFieldValue('cookieText', await fs.readTextFile(filePath));
+    } catch (err: any) {
+      log.error(err);
+      message.error('读取文件失败');
+    }
+  };
+
+  useEvent(
+    (accountId) => {
+      const account = accounts.find((item) => item.id === accountId);
+      if (!account) return;
+      setReloginAccount(account);
+      form.setFieldsValue({ label: account.label, proxyUrl: account.proxyUrl });
+      setModalOpen(true);
+    },
+    onReloginRequested,
+    [accounts],
+  );
 
   const onFormFinished = async (values: any) => {
+    const cookies = resolveCookies(values);
+    if (!cookies) return;
+
     setModalLoading(true);
-    const newCookieString = stringifyCookie(values);
+    const newCookieString = stringifyCookie(cookies);
+    const proxyUrl = values.proxyUrl?.trim() || undefined;
 
     try {
-      const accountInfo = await getAccountInfo(newCookieString);
-      setAccountInfo(accountInfo);
+      const accountInfo = await getAccountInfo({
+        cookieString: newCookieString,
+        proxyUrl,
+      });
+      // 重新登录已有账号时更新其 Cookie
+      const existing =
+        reloginAccount ||
+        accounts.find(
+          (account) => account.screenName === accountInfo.screenName,
+        );
+      if (
+        reloginAccount?.screenName &&
+        reloginAccount.screenName !== accountInfo.screenName
+      ) {
+        message.error(
+          `登录的账号 ${accountInfo.screenName} 与 ${reloginAccount.screenName} 不一致`,
+        );
+        return;
+      }
+
+      if (existing) {
+        updateAccount({
+          ...existing,
+          ...accountInfo,
+          label: values.label?.trim() || existing.label,
+          cookieString: newCookieString,
+          proxyUrl,
+        });
+        setCurrentAccountId(existing.id);
+        message.success(`账号 ${existing.label} 已重新登录`);
+      } else {
+        addAccount({
+          ...accountInfo,
+          label: values.label?.trim() || accountInfo.screenName,
+          cookieString: newCookieString,
+          proxyUrl,
+        });
+      }
+      setReloginAccount(undefined);
       setModalOpen(false);
-      setCookieString(newCookieString);
+      form.resetFields();
     } catch (err: any) {
       log.error(err);
       message.error('无法登录，请检查 Cookie 或代理配置是否正确');
@@ -60,12 +200,47 @@ export const Account: React.FC = () => {
     }
   };
 
+  /**
+   * 使用主页的媒体类型与日期配置下载当前账号的喜欢或书签
+   */
+  const downloadOwnTimeline = (source: 'likes' | 'bookmarks') => {
+    if (!accountInfo) return;
+    const sourceName = source === 'likes' ? '喜欢' : '书签';
+    const { filter } = useHomepageStore.getState();
+
+    if (!filter.mediaTypes || filter.mediaTypes.length === 0) {
+      message.error('请先在主页下载配置中至少选择一个媒体类型');
+      return;
+    }
+
+    modal.confirm({
+      title: `下载我的${sourceName}`,
+      content: `将按主页的下载配置下载 @${accountInfo.screenName} 的全部${sourceName}，确定继续吗？`,
+      onOk: async () => {
+        try {
+          const owner = await getUser(accountInfo.screenName);
+          const ownFilter: DownloadFilter = {
+            ...filter,
+            source,
+            onlyNew: false,
+          };
+          // 喜欢与书签只能由账号本人获取，需要固定使用当前账号
+          createCreationTask(owner, ownFilter, {
+            accountId: currentAccount?.id,
+          });
+          message.success('已成功创建下载任务，请到下载管理页查看');
+        } catch (err: any) {
+          log.error(err);
+          message.error('创建下载任务失败');
+        }
+      },
+    });
+  };
+
   const onModalOk = async () => {
     form.submit();
   };
 
-  const cookies = parseCookie(cookieString);
-
   return (
     <>
       <div className="px-4">
@@ -81,7 +256,13 @@ export const Account: React.FC = () => {
                   'bg-transparent',
                   loading && 'hover:cursor-wait',
                 )}
-                onClick={() => setModalOpen(true)}
+                onClick={() => {
+                  if (currentAccount) {
+                    onReloginRequested.emit(currentAccount.id);
+                  } else {
+                    setModalOpen(true);
+                  }
+                }}
               >
                 <Avatar size={50}>{loading ? '加载中' : '登录'}</Avatar>
               </button>
@@ -108,58 +289,166 @@ export const Account: React.FC = () => {
               <div className="text-white mt-1 font-bold">
                 {accountInfo.screenName}
               </div>
-              <div>
+              <div className="flex space-x-3 mt-1">
                 <button
-                  onClick={() => {
-                    setCookieString('');
-                  }}
+                  onClick={() => downloadOwnTimeline('likes')}
                   className="text-white bg-transparent hover:text-gray-200 transition-colors text-sm"
                 >
-                  <LogoutOutlined aria-hidden />
-                  <span className="ml-1">登出</span>
+                  <HeartFilled aria-hidden />
+                  <span className="ml-1">下载喜欢</span>
+                </button>
+                <button
+                  onClick={() => downloadOwnTimeline('bookmarks')}
+                  className="text-white bg-transparent hover:text-gray-200 transition-colors text-sm"
+                >
+                  <BookFilled aria-hidden />
+                  <span className="ml-1">下载书签</span>
                 </button>
               </div>
             </>
           )}
+          {currentAccount && !loading && (
+            <div className="flex space-x-3">
+              <Dropdown
+                trigger={['click']}
+                menu={{
+                  selectedKeys: currentAccount ? [currentAccount.id] : [],
+                  items: [
+                    ...accounts.map((account) => ({
+                      key: account.id,
+                      label: account.screenName
+                        ? `${account.label}（@${account.screenName}）`
+                        : account.label,
+                    })),
+                    { type: 'divider' as const },
+                    {
+                      key: 'add',
+                      icon: <PlusOutlined />,
+                      label: '添加账号',
+                    },
+                  ],
+                  onClick: ({ key }) => {
+                    if (key === 'add') {
+                      setModalOpen(true);
+                    } else {
+                      setCurrentAccountId(key);
+                    }
+                  },
+                }}
+              >
+                <button className="text-white bg-transparent hover:text-gray-200 transition-colors text-sm">
+                  <SwapOutlined aria-hidden />
+                  <span className="ml-1">切换账号</span>
+                </button>
+              </Dropdown>
+              <button
+                onClick={() => {
+                  if (currentAccount) removeAccount(currentAccount.id);
+                }}
+                className="text-white bg-transparent hover:text-gray-200 transition-colors text-sm"
+              >
+                <LogoutOutlined aria-hidden />
+                <span className="ml-1">登出</span>
+              </button>
+            </div>
+          )}
         </section>
       </div>
       <Modal
         onOk={onModalOk}
         confirmLoading={modalLoading}
-        onCancel={() => setModalOpen(false)}
+        onCancel={() => {
+          setModalOpen(false);
+          setReloginAccount(undefined);
+        }}
         open={modalOpen}
-        title="设置 Twitter 的 Cookie"
+        title={
+          reloginAccount
+            ? `重新登录 ${reloginAccount.label}`
+            : '添加 Twitter 账号'
+        }
       >
         <Form
           labelCol={{ span: 5 }}
           form={form}
           className="mt-4"
           onFinish={onFormFinished}
-          initialValues={cookies}
         >
-          <FormItem
-            name="auth_token"
-            label="auth_token"
-            rules={[
-              {
-                type: 'string',
-                required: true,
-              },
-            ]}
-          >
-            <Input placeholder="名称为 auth_token 的值" />
+          <FormItem name="label" label="备注名">
+            <Input placeholder="用于区分账号，默认为用户名" />
+          </FormItem>
+          <FormItem label="填写方式">
+            <Radio.Group
+              value={inputMode}
+              onChange={(e) => setInputMode(e.target.value)}
+              options={[
+                { label: '手动填写', value: 'manual' },
+                { label: '导入', value: 'import' },
+              ]}
+            />
           </FormItem>
+          {inputMode === 'manual' && (
+            <>
+              <FormItem
+                name="auth_token"
+                label="auth_token"
+                rules={[
+                  {
+                    type: 'string',
+                    required: true,
+                  },
+                ]}
+              >
+                <Input placeholder="名称为 auth_token 的值" />
+              </FormItem>
+              <FormItem
+                name="ct0"
+                label="ct0"
+                rules={[
+                  {
+                    type: 'string',
+                    required: true,
+                  },
+                ]}
+              >
+                <Input placeholder="名称为 ct0 的值" />
+              </FormItem>
+            </>
+          )}
+          {inputMode === 'import' && (
+            <FormItem
+              name="cookieText"
+              label="Cookie"
+              tooltip="支持 Netscape 格式的 cookies.txt、浏览器扩展导出的 JSON 以及 Cookie 请求头，只会导入 x.com 与 twitter.com 的 Cookie"
+              rules={[
+                {
+                  type: 'string',
+                  required: true,
+                },
+              ]}
+              extra={
+                <Button
+                  type="link"
+                  size="small"
+                  className="!p-0"
+                  onClick={onImportFile}
+                >
+                  从文件导入
+                </Button>
+              }
+            >
+              <Input.TextArea
+                rows={5}
+                placeholder="粘贴导出的 Cookie 内容，或从文件导入"
+              />
+            </FormItem>
+          )}
           <FormItem
-            name="ct0"
-            label="ct0"
-            rules={[
-              {
-                type: 'string',
-                required: true,
-              },
-            ]}
+            name="proxyUrl"
+            label="代理"
+            tooltip="为该账号单独设置代理，为空时使用设置中的代理"
           >
-            <Input placeholder="名称为 ct0 的值" />
+            <Input placeholder="如：http://127.0.0.1:7890" />
           </FormItem>
         </Form>
         <p className="mt-2">
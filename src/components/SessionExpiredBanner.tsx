@@ -0,0 +1,35 @@
+/* eslint-disable react/prop-types */
+import { Alert, Button } from 'antd';
+import React from 'react';
+import { useAppStateStore } from '../stores/app-state';
+import { onReloginRequested, useSessionStore } from '../stores/session';
+
+/**
+ * 有账号登录失效时常驻显示，提示重新登录
+ */
+export const SessionExpiredBanner: React.FC = () => {
+  const accounts = useAppStateStore((s) => s.accounts);
+  const expiredAccounts = useSessionStore((s) =>
+    accounts.filter((account) => s.isSessionExpired(account)),
+  );
+
+  if (expiredAccounts.length === 0) return null;
+
+  return (
+    <Alert
+      banner
+      type="error"
+      className="sticky top-0 z-10"
+      message={`账号 ${expiredAccounts.map((a) => a.label).join('、')} 的登录已失效，使用该账号的下载队列已暂停，请重新登录`}
+      action={
+        <Button
+          size="small"
+          danger
+          onClick={() => onReloginRequested.emit(expiredAccounts[0].id)}
+        >
+          重新登录
+        </Button>
+      }
+    />
+  );
+};
@@ -0,0 +1,23 @@
+/* eslint-disable react/prop-types */
+import React from 'react';
+import { SKIP_REASON_LABELS } from '../constants/skip-reasons';
+import { SkipReason, SkipReasonCounts } from '../interfaces/SkipReason';
+
+/**
+ * 按原因列出跳过的媒体数量，用于提示框
+ */
+export const SkipReasonList: React.FC<{ counts: SkipReasonCounts }> = ({
+  counts,
+}) => {
+  const entries = (Object.entries(counts) as [SkipReason, number][]).filter(
+    ([, count]) => count > 0,
+  );
+
+  return (
+    <ul aria-label="跳过原因">
+      {entries.map(([reason, count]) => (
+        <li key={reason}>{`${SKIP_REASON_LABELS[reason]}：${count}`}</li>
+      ))}
+    </ul>
+  );
+};
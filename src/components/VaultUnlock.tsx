@@ -0,0 +1,85 @@
+/* eslint-disable react/prop-types */
+import { LockFilled } from '@ant-design/icons';
+import { dialog } from '@tauri-apps/api';
+import { Button, Input, Space } from 'antd';
+import React, { useState } from 'react';
+
+export interface VaultUnlockProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onReset: () => Promise<void>;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({
+  onUnlock,
+  onReset,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const unlock = async () => {
+    if (!passphrase) return;
+    setLoading(true);
+    setError('');
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError('密码错误，请重试');
+      }
+    } catch (err: any) {
+      log.error(err);
+      setError(err?.message || '解锁失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reset = async () => {
+    const confirmed = await dialog.confirm(
+      '重置后已保存的账号信息将被清除，需要重新登录。确认重置？',
+      {
+        okLabel: '重置',
+        cancelLabel: '取消',
+        type: 'warning',
+        title: '忘记密码',
+      },
+    );
+    if (confirmed) await onReset();
+  };
+
+  return (
+    <section
+      aria-label="解锁"
+      className="w-screen h-screen flex flex-col items-center justify-center"
+    >
+      <LockFilled className="text-5xl text-ant-color-primary" />
+      <p className="mt-4 text-xl">账号信息已加密，请输入密码解锁</p>
+      <Space.Compact className="mt-4 w-80">
+        <Input.Password
+          autoFocus
+          value={passphrase}
+          disabled={loading}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onPressEnter={unlock}
+          placeholder="请输入密码"
+          status={error ? 'error' : undefined}
+        />
+        <Button
+          type="primary"
+          loading={loading}
+          disabled={!passphrase}
+          onClick={unlock}
+        >
+          解锁
+        </Button>
+      </Space.Compact>
+      {error && (
+        <p className="mt-2 text-ant-color-error" role="alert">
+          {error}
+        </p>
+      )}
+      <Button type="link" className="mt-2" onClick={reset}>
+        忘记密码
+      </Button>
+    </section>
+  );
+};
@@ -1,15 +1,108 @@
 /* eslint-disable react/prop-types */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import dayjs from 'dayjs';
 import { useDownloadStore } from '../../stores/download';
 import { Avatar, Button, Tooltip } from 'antd';
-import { buildUserUrl } from '../../twitter/url';
-import { QuestionCircleOutlined } from '@ant-design/icons';
+import { buildListUrl, buildUserUrl } from '../../twitter/url';
+import {
+  BookFilled,
+  HeartFilled,
+  QuestionCircleOutlined,
+  SearchOutlined,
+  UnorderedListOutlined,
+} from '@ant-design/icons';
+import { CreationTask } from '../../interfaces/CreationTask';
+import { useAppStateStore } from '../../stores/app-state';
+import { SkipReasonList } from '../SkipReasonList';
+
+const CreationTaskTitle: React.FC<{ task: CreationTask }> = ({ task: t }) => {
+  if (t.filter.source === 'search') {
+    return (
+      <span className="flex items-center space-x-1 overflow-hidden pr-4">
+        <SearchOutlined className="shrink-0" aria-hidden />
+        <span className="whitespace-nowrap overflow-hidden text-ellipsis">
+          {`搜索：${t.filter.searchQuery}`}
+        </span>
+      </span>
+    );
+  }
+
+  if (t.filter.source === 'list' && t.filter.listId) {
+    return (
+      <a
+        href={buildListUrl(t.filter.listId)}
+        target="_blank"
+        rel="noreferrer"
+        className="flex items-center space-x-1 overflow-hidden pr-4"
+      >
+        <UnorderedListOutlined className="shrink-0" aria-hidden />
+        <span className="whitespace-nowrap overflow-hidden text-ellipsis">
+          {`列表：${t.list?.name || t.filter.listId}`}
+        </span>
+      </a>
+    );
+  }
+
+  if (t.filter.source === 'likes' || t.filter.source === 'bookmarks') {
+    const isLikes = t.filter.source === 'likes';
+    return (
+      <span className="flex items-center space-x-1 overflow-hidden pr-4">
+        {isLikes ? (
+          <HeartFilled className="shrink-0 text-red-500" aria-hidden />
+        ) : (
+          <BookFilled className="shrink-0 text-ant-color-primary" aria-hidden />
+        )}
+        <span className="whitespace-nowrap overflow-hidden text-ellipsis">
+          {`${t.user?.screenName ? `@${t.user.screenName} ` : ''}${isLikes ? '的喜欢' : '的书签'}`}
+        </span>
+      </span>
+    );
+  }
+
+  return (
+    <a
+      href={
+        t.user?.screenName
+          ? buildUserUrl(t.user.screenName)
+          : 'javascript:void(0);'
+      }
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center space-x-1 overflow-hidden pr-4"
+    >
+      <Avatar size={20} src={t.user?.avatar} className="shrink-0" />
+      <span className="whitespace-nowrap overflow-hidden text-ellipsis">
+        {`${t.user?.name || '未知用户'} ${t.user?.screenName ? `@${t.user.screenName}` : ''}`}
+      </span>
+    </a>
+  );
+};
+
+const RateLimitCountdown: React.FC<{ resetAt: number }> = ({ resetAt }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const remaining = Math.max(0, resetAt - now);
+
+  return (
+    <Tooltip title="接口请求过于频繁，任务已暂停，限制解除后会自动继续">
+      <span className="text-ant-color-warning">
+        限流中：{dayjs.duration(remaining).format('HH:mm:ss')}
+      </span>
+    </Tooltip>
+  );
+};
 
 export const CreationTasks: React.FC = () => {
   const { creationTasks, removeCreationTask } = useDownloadStore((s) => ({
     creationTasks: s.creationTasks,
     removeCreationTask: s.removeCreationTask,
   }));
+  const accounts = useAppStateStore((s) => s.accounts);
 
   if (creationTasks.length === 0) return null;
 
@@ -19,28 +112,32 @@ export const CreationTasks: React.FC = () => {
       <ul className="mt-2 text-sm space-y-4 max-h-40 overflow-y-auto">
         {creationTasks.map((t) => (
           <li className="flex items-center justify-between" key={t.id}>
-            <a
-              href={
-                t.user?.screenName
-                  ? buildUserUrl(t.user.screenName)
-                  : 'javascript:void(0);'
-              }
-              target="_blank"
-              rel="noreferrer"
-              className="flex items-center space-x-1 overflow-hidden pr-4"
-            >
-              <Avatar size={20} src={t.user.avatar} className="shrink-0" />
-              <span className="whitespace-nowrap overflow-hidden text-ellipsis">
-                {`${t.user?.name || '未知用户'} ${t.user?.screenName ? `@${t.user.screenName}` : ''}`}
-              </span>
-            </a>
+            <CreationTaskTitle task={t} />
             <div className="flex items-center space-x-2 shrink-0">
               <span className="space-x-2">
+                {t.rateLimitResetAt && (
+                  <RateLimitCountdown resetAt={t.rateLimitResetAt} />
+                )}
+                {t.accountId && (
+                  <span className="text-ant-color-text-secondary">
+                    账号：
+                    {accounts.find((a) => a.id === t.accountId)?.label ||
+                      '已移除'}
+                  </span>
+                )}
                 <span>已发送：{t.completeCount}</span>
                 {t.skipCount > 0 && (
                   <span>
                     已跳过
-                    <Tooltip title="以下几种情况会跳过：1. 已经有相同文件名存在并打开跳过相同文件开关；2. 爬取进程未到指定开始日期。">
+                    <Tooltip
+                      title={
+                        t.skipReasons ? (
+                          <SkipReasonList counts={t.skipReasons} />
+                        ) : (
+                          '以下几种情况会跳过：1. 已经有相同文件名存在并打开跳过相同文件开关；2. 下载记录中已存在该媒体并打开跳过已下载媒体开关；3. 不符合下载配置中的过滤条件。'
+                        )
+                      }
+                    >
                       <QuestionCircleOutlined className="ml-1 text-ant-color-primary" />
                     </Tooltip>
                     ：{t.skipCount}
@@ -1,24 +1,96 @@
 /* eslint-disable react/prop-types */
-import { App, Button, Checkbox, DatePicker, Form, Radio, Space } from 'antd';
+import {
+  App,
+  Button,
+  Checkbox,
+  DatePicker,
+  Form,
+  Input,
+  InputNumber,
+  Radio,
+  Select,
+  Space,
+} from 'antd';
 import dayjs from 'dayjs';
-import React from 'react';
+import * as R from 'ramda';
+import React, { useEffect, useState } from 'react';
 import MediaType from '../../enums/MediaType';
 import { DownloadFilter } from '../../interfaces/DownloadFilter';
+import { DownloadProfile } from '../../interfaces/DownloadProfile';
 import { useDownloadStore } from '../../stores/download';
 import { useHomepageStore } from '../../stores/homepage';
+import { useSubscriptionStore } from '../../stores/subscriptions';
+import { parseListUrl } from '../../twitter/url';
+import { useAppStateStore } from '../../stores/app-state';
+import { validateKeywordFilter } from '../../utils/download-filter';
+import { validateFilterExpression } from '../../utils/filter-expression';
+import { FilterExpressionInput } from './FilterExpressionInput';
+import {
+  selectProfile,
+  useDownloadProfileStore,
+} from '../../stores/download-profiles';
+import {
+  DownloadProfileFormValues,
+  DownloadProfileModal,
+} from './DownloadProfileModal';
 
 export const DownloadController: React.FC = () => {
-  const { message } = App.useApp();
-  const { filter, setFilter, user } = useHomepageStore((s) => ({
-    filter: s.filter,
-    setFilter: s.setFilter,
-    user: s.userInfo.data,
+  const { message, modal } = App.useApp();
+  const { filter, setFilter, user, listInfo, profileId, applyProfile } =
+    useHomepageStore((s) => ({
+      filter: s.filter,
+      setFilter: s.setFilter,
+      user: s.userInfo.data,
+      listInfo: s.listInfo.data,
+      profileId: s.profileId,
+      applyProfile: s.applyProfile,
+    }));
+  const {
+    profiles,
+    profile,
+    isUserDefault,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    setUserDefault,
+  } = useDownloadProfileStore((s) => ({
+    profiles: s.profiles,
+    profile: selectProfile(s, profileId),
+    isUserDefault:
+      !!user && !!profileId && s.userDefaults[user.id] === profileId,
+    addProfile: s.addProfile,
+    updateProfile: s.updateProfile,
+    removeProfile: s.removeProfile,
+    setUserDefault: s.setUserDefault,
   }));
+  // 为空时关闭，editing 为空时新建方案
+  const [profileModal, setProfileModal] = useState<{
+    editing?: DownloadProfile;
+  }>();
+  const [form] = Form.useForm<DownloadFilter>();
+  const accounts = useAppStateStore((s) => s.accounts);
+  // 为空时自动轮换账号
+  const [accountId, setAccountId] = useState<string>();
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // 加载列表等操作会从外部修改下载配置，需要同步到表单
+  // setFieldsValue 只会合并，filter 中没有的字段（如方案中已清空的条件）需要显式清空
+  useEffect(() => {
+    form.setFieldsValue({
+      ...R.map(R.always(undefined), form.getFieldsValue(true)),
+      ...filter,
+    });
+  }, [filter]);
   const { createCreationTask } = useDownloadStore((s) => ({
     createCreationTask: s.createCreationTask,
   }));
 
-  const onStartDownload = async () => {
+  const { subscribed, addSubscription } = useSubscriptionStore((s) => ({
+    subscribed: s.subscriptions.some((item) => item.user.id === user?.id),
+    addSubscription: s.addSubscription,
+  }));
+
+  const onSubscribe = () => {
     if (!user) {
       message.error('请先加载用户');
       return;
@@ -29,8 +101,71 @@ export const DownloadController: React.FC = () => {
       return;
     }
 
+    const filterError =
+      validateKeywordFilter(filter) ||
+      validateFilterExpression(filter.expression);
+    if (filterError) {
+      message.error(filterError);
+      return;
+    }
+
+    addSubscription(user, filter, { output: profile?.output });
+    message.success('已订阅该用户并开始首次同步，可在订阅页调整同步间隔');
+  };
+
+  const isSearch = filter.source === 'search';
+  const isList = filter.source === 'list';
+  const isUserSource = !isSearch && !isList;
+
+  const onStartDownload = async () => {
+    if (isSearch && !filter.searchQuery?.trim()) {
+      message.error('请输入搜索语句');
+      return;
+    }
+
+    const listId = filter.listId
+      ? parseListUrl(filter.listId) || filter.listId.trim()
+      : '';
+    if (isList && !/^\d+$/.test(listId)) {
+      message.error('请输入正确的列表 ID 或列表链接');
+      return;
+    }
+
+    if (isUserSource && !user) {
+      message.error('请先加载用户');
+      return;
+    }
+
+    if (!filter.mediaTypes || filter.mediaTypes.length === 0) {
+      message.error('请至少选择一个媒体类型');
+      return;
+    }
+
+    const filterError =
+      validateKeywordFilter(filter) ||
+      validateFilterExpression(filter.expression);
+    if (filterError) {
+      message.error(filterError);
+      return;
+    }
+
     try {
-      createCreationTask(user, filter);
+      if (isList) {
+        createCreationTask(
+          undefined,
+          { ...filter, listId },
+          {
+            list: listInfo?.id === listId ? listInfo : undefined,
+            accountId,
+            output: profile?.output,
+          },
+        );
+      } else {
+        createCreationTask(isSearch ? undefined : user, filter, {
+          accountId,
+          output: profile?.output,
+        });
+      }
       message.success('已成功创建下载任务，请到下载管理页查看');
     } catch (err: any) {
       log.error(err);
@@ -38,14 +173,98 @@ export const DownloadController: React.FC = () => {
     }
   };
 
+  const onSaveProfile = ({ name, ...output }: DownloadProfileFormValues) => {
+    const editing = profileModal?.editing;
+    if (editing) {
+      updateProfile(editing.id, { name, output });
+    } else {
+      applyProfile(addProfile(name, filter, output).id);
+    }
+    setProfileModal(undefined);
+    message.success('已保存下载方案');
+  };
+
+  const onRemoveProfile = () => {
+    if (!profile) return;
+    modal.confirm({
+      title: `确定删除下载方案“${profile.name}”吗？`,
+      content: '使用该方案作为默认方案的用户会恢复使用全局设置。',
+      onOk: () => {
+        removeProfile(profile.id);
+        applyProfile(undefined);
+      },
+    });
+  };
+
   return (
     <section className="p-4 bg-white rounded-md mt-3 border-[1px]">
       <h2 className="font-bold mb-4">下载配置</h2>
+      <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="download-profile">下载方案：</label>
+        <Select
+          id="download-profile"
+          className="w-60"
+          value={profileId}
+          onChange={applyProfile}
+          allowClear
+          placeholder="不使用（按全局设置保存）"
+          options={profiles.map((item) => ({
+            label: item.name,
+            value: item.id,
+          }))}
+        />
+        <Button size="small" onClick={() => setProfileModal({})}>
+          保存为新方案
+        </Button>
+        {profile && (
+          <>
+            <Button
+              size="small"
+              onClick={() => {
+                updateProfile(profile.id, { filter });
+                message.success('已用当前下载配置更新方案');
+              }}
+            >
+              更新下载配置
+            </Button>
+            <Button
+              size="small"
+              onClick={() => setProfileModal({ editing: profile })}
+            >
+              编辑保存方式
+            </Button>
+            <Button size="small" danger onClick={onRemoveProfile}>
+              删除
+            </Button>
+            {user && (
+              <Checkbox
+                checked={isUserDefault}
+                onChange={(e) =>
+                  setUserDefault(
+                    user.id,
+                    e.target.checked ? profile.id : undefined,
+                  )
+                }
+              >
+                {`设为 @${user.screenName} 的默认方案`}
+              </Checkbox>
+            )}
+          </>
+        )}
+      </div>
+      <DownloadProfileModal
+        open={!!profileModal}
+        profile={profileModal?.editing}
+        onCancel={() => setProfileModal(undefined)}
+        onSubmit={onSaveProfile}
+      />
       <Form<DownloadFilter>
+        form={form}
         layout="inline"
         initialValues={filter}
         onValuesChange={(_, values) => {
-          setFilter(values);
+          // values 只包含当前显示的表单项，收起高级过滤时需要保留其中的条件
+          setFilter({ ...filter, ...values });
         }}
       >
         <Form.Item name="dateRange" label="日期范围">
@@ -100,7 +319,7 @@ export const DownloadController: React.FC = () => {
         <Form.Item
           name="source"
           label="下载源"
-          tooltip="帖子能下载到更早的推文，但爬取速度较慢；媒体可能下载不到更早的推文，但爬取速度更快。"
+          tooltip="帖子能下载到更早的推文，但爬取速度较慢；媒体可能下载不到更早的推文，但爬取速度更快；回复包含用户发在回复串里的推文；搜索可以按话题、关键词等搜索语句下载，不限定用户；列表会下载列表内所有成员的推文。"
         >
           <Radio.Group
             options={[
@@ -112,10 +331,264 @@ export const DownloadController: React.FC = () => {
                 label: '媒体',
                 value: 'medias',
               },
+              {
+                label: '回复',
+                value: 'replies',
+              },
+              {
+                label: '搜索',
+                value: 'search',
+              },
+              {
+                label: '列表',
+                value: 'list',
+              },
             ]}
           />
         </Form.Item>
+        {isSearch && (
+          <>
+            <Form.Item
+              name="searchQuery"
+              label="搜索语句"
+              tooltip="支持 X 的高级搜索语法，如：#artfight filter:media"
+            >
+              <Input placeholder="如：#artfight filter:media" allowClear />
+            </Form.Item>
+            <Form.Item name="searchProduct" label="搜索结果">
+              <Radio.Group
+                options={[
+                  {
+                    label: '最新',
+                    value: 'Latest',
+                  },
+                  {
+                    label: '媒体',
+                    value: 'Media',
+                  },
+                ]}
+              />
+            </Form.Item>
+          </>
+        )}
+        {isList && (
+          <Form.Item
+            name="listId"
+            label="列表"
+            tooltip="可以直接在上方输入列表链接加载列表"
+          >
+            <Input placeholder="列表 ID 或链接" allowClear />
+          </Form.Item>
+        )}
+        <Form.Item
+          hidden={!isUserSource}
+          name="onlyNew"
+          valuePropName="checked"
+          tooltip="遇到上次同步过的帖子时停止爬取，适合定期更新已下载过的用户。"
+        >
+          <Checkbox>仅下载上次同步后的新帖子</Checkbox>
+        </Form.Item>
+        <Form.Item
+          hidden={filter.source !== 'replies'}
+          name="selfRepliesOnly"
+          valuePropName="checked"
+          tooltip="只保留该用户自己的推文和回复自己的回复串，排除与其他人的对话。"
+        >
+          <Checkbox>仅自己的回复串</Checkbox>
+        </Form.Item>
+        <Form.Item
+          hidden={filter.source === 'medias'}
+          name="includeRetweets"
+          valuePropName="checked"
+          tooltip="转推的媒体归属于原推文作者，可在文件名模板中使用 %ORIGIN_USER_SCREEN_NAME% 与 %IS_RETWEET% 区分。"
+        >
+          <Checkbox>包含转推</Checkbox>
+        </Form.Item>
+        <Form.Item
+          hidden={filter.source === 'medias'}
+          name="includeQuotes"
+          valuePropName="checked"
+          tooltip="同时下载推文所引用推文中的媒体，可在文件名模板中使用 %IS_QUOTE% 区分。"
+        >
+          <Checkbox>包含引用推文的媒体</Checkbox>
+        </Form.Item>
+        <Form.Item
+          hidden={!isUserSource}
+          name="includeProfileImages"
+          valuePropName="checked"
+          tooltip="下载原尺寸的头像与横幅到该用户的文件夹，图片未变化时不会重复保存。"
+        >
+          <Checkbox>同时下载头像与横幅</Checkbox>
+        </Form.Item>
+        <Form.Item>
+          <Button
+            type="link"
+            className="px-0"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+          >
+            {showAdvanced ? '收起高级过滤' : '高级过滤'}
+          </Button>
+        </Form.Item>
+        {showAdvanced && (
+          <>
+            <Form.Item
+              name="includeKeywords"
+              label="包含关键词"
+              tooltip="推文正文或话题标签包含任一关键词时才下载，话题标签可写作 #commission，主页预览同样生效。"
+            >
+              <Select
+                className="min-w-48"
+                mode="tags"
+                allowClear
+                open={false}
+                placeholder="输入后回车添加"
+              />
+            </Form.Item>
+            <Form.Item
+              name="excludeKeywords"
+              label="排除关键词"
+              tooltip="推文正文或话题标签包含任一关键词时跳过。"
+            >
+              <Select
+                className="min-w-48"
+                mode="tags"
+                allowClear
+                open={false}
+                placeholder="输入后回车添加"
+              />
+            </Form.Item>
+            <Form.Item name="keywordRegex" valuePropName="checked">
+              <Checkbox>正则表达式</Checkbox>
+            </Form.Item>
+            <Form.Item name="keywordCaseSensitive" valuePropName="checked">
+              <Checkbox>区分大小写</Checkbox>
+            </Form.Item>
+            <Form.Item
+              name="keywordWholeWord"
+              valuePropName="checked"
+              tooltip="只匹配完整的单词，如 WIP 不匹配 WIPE。"
+            >
+              <Checkbox>全词匹配</Checkbox>
+            </Form.Item>
+            <Form.Item
+              name="expression"
+              label="过滤表达式"
+              tooltip='对每个媒体求值，结果为假时跳过。支持 and、or、not 与括号，比较运算 == != > >= < <=，字符串运算 contains、matches（正则）、in ["ja", "zh"]，输入时会提示可用字段。'
+              rules={[
+                {
+                  validator: async (_, value) => {
+                    const error = validateFilterExpression(value);
+                    if (error) throw new Error(error);
+                  },
+                },
+              ]}
+            >
+              <FilterExpressionInput />
+            </Form.Item>
+            <Form.Item
+              label="最小尺寸"
+              tooltip="宽、高（像素）与像素数（百万像素）任一不满足时跳过，缺少尺寸信息的媒体不过滤。"
+            >
+              <Space>
+                <Form.Item name="minWidth" noStyle>
+                  <InputNumber min={0} placeholder="宽" />
+                </Form.Item>
+                <Form.Item name="minHeight" noStyle>
+                  <InputNumber min={0} placeholder="高" />
+                </Form.Item>
+                <Form.Item name="minMegapixels" noStyle>
+                  <InputNumber min={0} step={0.5} placeholder="百万像素" />
+                </Form.Item>
+              </Space>
+            </Form.Item>
+            <Form.Item label="视频时长" tooltip="单位为秒，只对视频生效。">
+              <Space>
+                <Form.Item name="minDuration" noStyle>
+                  <InputNumber min={0} placeholder="最短" />
+                </Form.Item>
+                <Form.Item name="maxDuration" noStyle>
+                  <InputNumber min={0} placeholder="最长" />
+                </Form.Item>
+              </Space>
+            </Form.Item>
+            <Form.Item name="orientations" label="画面方向">
+              <Checkbox.Group
+                options={[
+                  { label: '横向', value: 'landscape' },
+                  { label: '纵向', value: 'portrait' },
+                  { label: '正方形', value: 'square' },
+                ]}
+              />
+            </Form.Item>
+            <Form.Item
+              label="最少互动"
+              tooltip="推文的喜欢数、转推数与浏览量，转推按原推文计算，较早的推文没有浏览量时不过滤。"
+            >
+              <Space>
+                <Form.Item name="minFavoriteCount" noStyle>
+                  <InputNumber min={0} placeholder="喜欢" />
+                </Form.Item>
+                <Form.Item name="minRetweetCount" noStyle>
+                  <InputNumber min={0} placeholder="转推" />
+                </Form.Item>
+                <Form.Item name="minViews" noStyle>
+                  <InputNumber min={0} placeholder="浏览" />
+                </Form.Item>
+              </Space>
+            </Form.Item>
+            <Form.Item name="sensitive" label="敏感内容">
+              <Select
+                className="w-36"
+                allowClear
+                placeholder="不限"
+                options={[
+                  { label: '仅敏感内容', value: 'only' },
+                  { label: '排除敏感内容', value: 'exclude' },
+                ]}
+              />
+            </Form.Item>
+            <Form.Item
+              name="langs"
+              label="语言"
+              tooltip="推文的语言代码，可输入其他代码，为空时不限。"
+            >
+              <Select
+                className="min-w-36"
+                mode="tags"
+                allowClear
+                placeholder="不限"
+                options={[
+                  { label: '中文（zh）', value: 'zh' },
+                  { label: '日语（ja）', value: 'ja' },
+                  { label: '英语（en）', value: 'en' },
+                  { label: '韩语（ko）', value: 'ko' },
+                ]}
+              />
+            </Form.Item>
+          </>
+        )}
       </Form>
+      {accounts.length > 1 && (
+        <div className="mt-4 flex items-center text-sm">
+          <label htmlFor="download-account" className="mr-2">
+            使用账号：
+          </label>
+          <Select
+            id="download-account"
+            className="w-60"
+            value={accountId}
+            onChange={setAccountId}
+            allowClear
+            placeholder="自动轮换（遇到限流或失效时切换）"
+            options={accounts.map((account) => ({
+              label: account.screenName
+                ? `${account.label}（@${account.screenName}）`
+                : account.label,
+              value: account.id,
+            }))}
+          />
+        </div>
+      )}
       <hr className="my-4" />
       <section className="flex space-x-2">
         <Button type="primary" onClick={onStartDownload}>
@@ -123,6 +596,9 @@ export const DownloadController: React.FC = () => {
             <span>开始下载</span>
           </Space>
         </Button>
+        <Button disabled={subscribed || !isUserSource} onClick={onSubscribe}>
+          {subscribed ? '已订阅' : '订阅'}
+        </Button>
       </section>
     </section>
   );
@@ -0,0 +1,98 @@
+/* eslint-disable react/prop-types */
+import { Form, Input, Modal, Select } from 'antd';
+import React, { useEffect } from 'react';
+import { DownloadOutput } from '../../interfaces/DownloadOutput';
+import { DownloadProfile } from '../../interfaces/DownloadProfile';
+import { useSettingsStore } from '../../stores/settings';
+import { FileNameTemplateInput } from '../settings/FileNameTemplateInput';
+
+export interface DownloadProfileFormValues extends DownloadOutput {
+  name: string;
+}
+
+export interface DownloadProfileModalProps {
+  open: boolean;
+  /**
+   * 编辑的方案，为空时新建方案
+   */
+  profile?: DownloadProfile;
+  onCancel: () => void;
+  onSubmit: (values: DownloadProfileFormValues) => void;
+}
+
+export const DownloadProfileModal: React.FC<DownloadProfileModalProps> = ({
+  open,
+  profile,
+  onCancel,
+  onSubmit,
+}) => {
+  const [form] = Form.useForm<DownloadProfileFormValues>();
+
+  useEffect(() => {
+    if (!open) return;
+    // 新建方案时以全局设置为初始值
+    const { download } = useSettingsStore.getState();
+    form.setFieldsValue(
+      profile
+        ? { name: profile.name, ...profile.output }
+        : {
+            name: '',
+            dirTemplate: download.dirTemplate,
+            fileNameTemplate: download.fileNameTemplate,
+            conflictPolicy: download.sameFileSkip ? 'skip' : 'rename',
+          },
+    );
+  }, [open, profile]);
+
+  return (
+    <Modal
+      open={open}
+      title={profile ? '编辑下载方案' : '保存为新的下载方案'}
+      okText="保存"
+      width={640}
+      destroyOnClose
+      onCancel={onCancel}
+      onOk={async () => onSubmit(await form.validateFields())}
+    >
+      <p className="mb-4 text-sm text-ant-color-text-secondary">
+        方案会保存当前的下载配置（日期范围除外）与以下保存方式。
+      </p>
+      <Form<DownloadProfileFormValues> form={form} layout="vertical">
+        <Form.Item
+          name="name"
+          label="方案名称"
+          rules={[
+            { required: true, whitespace: true, message: '请填写方案名称' },
+          ]}
+        >
+          <Input placeholder="如：画师、表情包" />
+        </Form.Item>
+        <Form.Item
+          name="dirTemplate"
+          label="文件夹模板"
+          tooltip="相对于设置中的保存路径，为空时直接保存在保存路径里面"
+        >
+          <FileNameTemplateInput />
+        </Form.Item>
+        <Form.Item
+          name="fileNameTemplate"
+          label="文件名模板"
+          rules={[
+            { required: true, whitespace: true, message: '请填写文件名模板' },
+          ]}
+        >
+          <FileNameTemplateInput />
+        </Form.Item>
+        <Form.Item name="conflictPolicy" label="存在同名文件时">
+          <Select
+            options={[
+              { label: '跳过', value: 'skip' },
+              { label: '自动重命名', value: 'rename' },
+              { label: '覆盖', value: 'overwrite' },
+            ]}
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
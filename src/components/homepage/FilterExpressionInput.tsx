@@ -0,0 +1,44 @@
+/* eslint-disable react/prop-types */
+import { AutoComplete } from 'antd';
+import React, { useMemo } from 'react';
+import { getFilterExpressionSuggestions } from '../../utils/filter-expression';
+
+export interface FilterExpressionInputProps {
+  value?: string;
+  onChange?: (value: string) => void;
+}
+
+export const FilterExpressionInput: React.FC<FilterExpressionInputProps> = ({
+  value,
+  onChange,
+}) => {
+  const options = useMemo(
+    () =>
+      getFilterExpressionSuggestions(value || '').map((suggestion) => ({
+        value: suggestion.value,
+        label: (
+          <span>
+            <strong>{suggestion.label}</strong>
+            {suggestion.desc && (
+              <span className="ml-2 text-ant-color-text-secondary">
+                {suggestion.desc}
+              </span>
+            )}
+          </span>
+        ),
+      })),
+    [value],
+  );
+
+  return (
+    <AutoComplete
+      className="w-[32rem]"
+      value={value}
+      onChange={onChange}
+      options={options}
+      filterOption={false}
+      allowClear
+      placeholder='如：(type == "video" and duration > 30) or likes > 1000'
+    />
+  );
+};
@@ -0,0 +1,148 @@
+/* eslint-disable react/prop-types */
+import { App, Avatar, Button } from 'antd';
+import dayjs from 'dayjs';
+import React, { useState } from 'react';
+import MediaType from '../../enums/MediaType';
+import { useDownloadStore } from '../../stores/download';
+import { useHomepageStore } from '../../stores/homepage';
+import {
+  selectProfile,
+  useDownloadProfileStore,
+} from '../../stores/download-profiles';
+import { buildPostUrl } from '../../twitter/url';
+import { getPostMedias } from '../../twitter/utils';
+
+export const PostDetail: React.FC = () => {
+  const { message } = App.useApp();
+  const { post, profileId } = useHomepageStore((s) => ({
+    post: s.postDetail.data,
+    profileId: s.profileId,
+  }));
+  // 选择了下载方案时按方案的保存方式保存
+  const output = useDownloadProfileStore(
+    (s) => selectProfile(s, profileId)?.output,
+  );
+  const { batchCreateDownloadTask, downloadThread } = useDownloadStore((s) => ({
+    batchCreateDownloadTask: s.batchCreateDownloadTask,
+    downloadThread: s.downloadThread,
+  }));
+  const [creating, setCreating] = useState(false);
+  const [creatingThread, setCreatingThread] = useState(false);
+
+  if (!post) return null;
+
+  const medias = getPostMedias(post, true);
+
+  const onDownload = async () => {
+    setCreating(true);
+    try {
+      const count = await batchCreateDownloadTask(
+        medias.map((media) => ({ post, media, output })),
+      );
+      const skipped = medias.length - count;
+      if (count === 0) {
+        message.info('媒体均已在下载历史中，已跳过');
+      } else if (skipped > 0) {
+        message.success(`已添加到下载队列，跳过 ${skipped} 个下载历史中的媒体`);
+      } else {
+        message.success('已添加到下载队列');
+      }
+    } catch (err: any) {
+      log.error(err);
+      message.error(`创建下载任务失败：${err?.message}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const onDownloadThread = async () => {
+    setCreatingThread(true);
+    try {
+      const count = await downloadThread(post, output);
+      message.success(`已将回复串中的 ${count} 个媒体添加到下载队列`);
+    } catch (err: any) {
+      log.error(err);
+      message.error(`下载回复串失败：${err?.message}`);
+    } finally {
+      setCreatingThread(false);
+    }
+  };
+
+  return (
+    <section
+      aria-label="推文详情"
+      className="bg-white border-[1px] border-gray-300 rounded-md mt-4 p-4"
+    >
+      <span className="sr-only" role="status">
+        推文加载完成
+      </span>
+      <a
+        title="打开推文"
+        className="flex items-center w-fit"
+        href={
+          post.user?.screenName
+            ? buildPostUrl(post.user.screenName, post.id)
+            : 'javascript:void(0);'
+        }
+        target="_blank"
+        rel="noreferrer"
+      >
+        <Avatar src={post.user?.avatar} size={40} alt="头像" />
+        <div className="ml-2">
+          <p>{post.user?.name || '未知用户'}</p>
+          <p className="text-ant-color-text-secondary text-sm">
+            {post.user?.screenName && `@${post.user.screenName} · `}
+            {post.createdAt
+              ? dayjs(post.createdAt).format('YYYY-MM-DD HH:mm')
+              : '未知日期'}
+          </p>
+        </div>
+      </a>
+      {post.fullText && (
+        <p className="mt-2 text-sm whitespace-pre-wrap break-all">
+          {post.fullText}
+        </p>
+      )}
+      {medias.length > 0 && (
+        <ul className="mt-3 grid grid-cols-[repeat(auto-fill,minmax(8rem,1fr))] gap-2">
+          {medias.map((media) => (
+            <li
+              key={media.id}
+              className="relative h-[8rem] overflow-hidden bg-gray-100"
+            >
+              <img
+                alt="推文图片"
+                src={`${media.url}?format=jpg&name=small`}
+                loading="lazy"
+                className="object-cover w-full h-full"
+              />
+              {media.type !== MediaType.Photo && (
+                <span className="block absolute right-1 bottom-1 text-white bg-[rgba(0,0,0,0.6)] rounded-sm px-[0.3rem] text-xs">
+                  {media.type === MediaType.Video ? '视频' : 'GIF'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <hr className="my-4" />
+      <Button
+        type="primary"
+        disabled={medias.length === 0}
+        loading={creating}
+        onClick={onDownload}
+      >
+        {medias.length > 0
+          ? `下载该推文的媒体（共 ${medias.length} 个）`
+          : '该推文没有媒体'}
+      </Button>
+      <Button
+        className="ml-2"
+        loading={creatingThread}
+        onClick={onDownloadThread}
+      >
+        下载作者的整个回复串
+      </Button>
+    </section>
+  );
+};
@@ -8,20 +8,47 @@ import MediaType from '../../enums/MediaType';
 import { TwitterMedia } from '../../interfaces/TwitterMedia';
 import { TwitterPost } from '../../interfaces/TwitterPost';
 import { useDownloadStore } from '../../stores/download';
+import { useDownloadHistoryStore } from '../../stores/download-history';
 import { useHomepageStore } from '../../stores/homepage';
+import {
+  selectProfile,
+  useDownloadProfileStore,
+} from '../../stores/download-profiles';
 import { buildPostUrl } from '../../twitter/url';
+import {
+  getKeywordSkipReason,
+  validateKeywordFilter,
+} from '../../utils/download-filter';
 import { InfiniteScroll } from '../InfiniteScroll';
 import { GridViewItemAction, GridViewItemActions } from './GridViewItemActions';
 
 export const PostListGridView: React.FC = () => {
   const { message } = App.useApp();
-  const { userInfo, postList } = useHomepageStore((state) => ({
-    postList: state.postList,
-    userInfo: state.userInfo,
-  }));
-  const createDownloadTask = useDownloadStore(
-    (state) => state.createDownloadTask,
+  const { userInfo, postList, filter, profileId } = useHomepageStore(
+    (state) => ({
+      postList: state.postList,
+      userInfo: state.userInfo,
+      filter: state.filter,
+      profileId: state.profileId,
+    }),
+  );
+  // 选择了下载方案时按方案的保存方式保存
+  const output = useDownloadProfileStore(
+    (state) => selectProfile(state, profileId)?.output,
   );
+  const { createDownloadTask, downloadThread } = useDownloadStore((state) => ({
+    createDownloadTask: state.createDownloadTask,
+    downloadThread: state.downloadThread,
+  }));
+  const downloadedRecords = useDownloadHistoryStore((state) => state.records);
+
+  // 按关键词过滤预览，与实际下载的结果保持一致，关键词有误时不过滤
+  const visiblePosts = useMemo(() => {
+    const list = postList.list || [];
+    if (validateKeywordFilter(filter)) return list;
+    return list.filter((post) => !getKeywordSkipReason(post, filter));
+  }, [postList.list, filter]);
+  const hiddenCount = (postList.list?.length || 0) - visiblePosts.length;
 
   const mediaList = useMemo<(TwitterMedia & { postId: string })[]>(
     () =>
@@ -41,8 +68,8 @@ export const PostListGridView: React.FC = () => {
           )(postItem),
         ),
         R.flatten,
-      )(postList.list || []),
-    [postList.list],
+      )(visiblePosts),
+    [visiblePosts],
   );
 
   const requestFn = useCallback(async () => {
@@ -82,6 +109,11 @@ export const PostListGridView: React.FC = () => {
           列表加载完成
         </div>
       )}
+      {hiddenCount > 0 && (
+        <p className="mb-2 text-sm text-ant-color-text-secondary" role="status">
+          {`已按关键词隐藏 ${hiddenCount} 条推文`}
+        </p>
+      )}
       <ul className="grid grid-cols-[repeat(auto-fill,minmax(12rem,1fr))] gap-2">
         {mediaList.map((media) => {
           const actionOpen: GridViewItemAction | undefined = userInfo.data
@@ -92,22 +124,41 @@ export const PostListGridView: React.FC = () => {
               }
             : undefined;
 
+          const findPost = () =>
+            postList.list!.find((post) => post.id === media.postId)!;
+
           async function commonDownload() {
-            const post = postList.list!.find(
-              (post) => post.id === media.postId,
-            )!;
+            const post = findPost();
             try {
-              await createDownloadTask({
+              const created = await createDownloadTask({
                 post,
                 media,
+                output,
               });
-              message.success('已添加到下载队列');
+              if (created) {
+                message.success('已添加到下载队列');
+              } else {
+                message.info('该媒体已在下载历史中，已跳过');
+              }
             } catch (err: any) {
               log.error(err);
               message.error(`创建下载任务失败：${err?.message}`);
             }
           }
 
+          const actionDownloadThread: GridViewItemAction = {
+            name: '下载回复串',
+            onClick: async () => {
+              try {
+                const count = await downloadThread(findPost(), output);
+                message.success(`已将回复串中的 ${count} 个媒体添加到下载队列`);
+              } catch (err: any) {
+                log.error(err);
+                message.error(`下载回复串失败：${err?.message}`);
+              }
+            },
+          };
+
           const actionDownloadImage: GridViewItemAction = {
             name: '下载图片',
             onClick: commonDownload,
@@ -144,6 +195,11 @@ export const PostListGridView: React.FC = () => {
                       : '视频'}
                   </span>
                 )}
+                {media.id && downloadedRecords[media.id] && (
+                  <span className="block absolute left-2 top-2 text-white bg-[rgba(0,0,0,0.6)] rounded-sm px-[0.3rem] text-sm">
+                    已下载
+                  </span>
+                )}
                 {media.type === MediaType.Gif && (
                   <span className="block absolute right-2 bottom-2 text-white bg-[rgba(0,0,0,0.6)] rounded-sm px-[0.3rem] text-sm">
                     GIF
@@ -154,15 +210,27 @@ export const PostListGridView: React.FC = () => {
                     actions={R.cond([
                       [
                         R.equals(MediaType.Photo),
-                        R.always([actionOpen, actionDownloadImage]),
+                        R.always([
+                          actionOpen,
+                          actionDownloadImage,
+                          actionDownloadThread,
+                        ]),
                       ],
                       [
                         R.equals(MediaType.Video),
-                        R.always([actionOpen, actionDownloadVideo]),
+                        R.always([
+                          actionOpen,
+                          actionDownloadVideo,
+                          actionDownloadThread,
+                        ]),
                       ],
                       [
                         R.equals(MediaType.Gif),
-                        R.always([actionOpen, actionDownloadGif]),
+                        R.always([
+                          actionOpen,
+                          actionDownloadGif,
+                          actionDownloadThread,
+                        ]),
                       ],
                       [R.T, R.always([])],
                     ])(media.type).filter(R.isNotNil)}
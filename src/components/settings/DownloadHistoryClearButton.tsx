@@ -0,0 +1,37 @@
+/* eslint-disable react/prop-types */
+import { dialog } from '@tauri-apps/api';
+import { App, Button } from 'antd';
+import React from 'react';
+import { useDownloadHistoryStore } from '../../stores/download-history';
+
+export const DownloadHistoryClearButton: React.FC = () => {
+  const { message } = App.useApp();
+  const { count, clearRecords } = useDownloadHistoryStore((s) => ({
+    count: Object.keys(s.records).length,
+    clearRecords: s.clearRecords,
+  }));
+
+  return (
+    <Button
+      disabled={count === 0}
+      onClick={async () => {
+        if (
+          await dialog.confirm(
+            '确认清空下载记录？\n清空后已下载过的媒体将不再被跳过，已下载的文件不会被删除。',
+            {
+              okLabel: '清空',
+              cancelLabel: '取消',
+              type: 'warning',
+              title: '清空下载记录',
+            },
+          )
+        ) {
+          clearRecords();
+          message.success('已清空下载记录');
+        }
+      }}
+    >
+      清空下载记录（共 {count} 条）
+    </Button>
+  );
+};
@@ -0,0 +1,113 @@
+/* eslint-disable react/prop-types */
+import { App, Button, Form, Input, Modal, Space } from 'antd';
+import React, { useState } from 'react';
+import { vault } from '../../stores/persist/vault';
+
+interface PassphraseFormValues {
+  passphrase: string;
+  confirm: string;
+}
+
+export const VaultPassphraseSetting: React.FC = () => {
+  const { message, modal } = App.useApp();
+  const [enabled, setEnabled] = useState(vault.enabled);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [form] = Form.useForm<PassphraseFormValues>();
+
+  const onFinish = async (values: PassphraseFormValues) => {
+    setLoading(true);
+    try {
+      await vault.setPassphrase(values.passphrase);
+      setEnabled(true);
+      setModalOpen(false);
+      form.resetFields();
+      message.success(enabled ? '已修改密码' : '已启用加密');
+    } catch (err: any) {
+      log.error(err);
+      message.error(`设置密码失败：${err?.message || '未知原因'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onDisable = () => {
+    modal.confirm({
+      title: '停用加密',
+      content: '停用后账号信息将以明文保存，确认停用？',
+      onOk: async () => {
+        try {
+          await vault.disable();
+          setEnabled(false);
+          message.success('已停用加密');
+        } catch (err: any) {
+          log.error(err);
+          message.error(`停用加密失败：${err?.message || '未知原因'}`);
+        }
+      },
+    });
+  };
+
+  return (
+    <section>
+      <p className="text-sm text-ant-color-text-secondary mb-2">
+        {enabled
+          ? '账号 Cookie 等信息已加密保存，每次启动时需要输入密码解锁。'
+          : '设置密码后账号 Cookie 等信息将加密保存，每次启动时需要输入密码解锁。'}
+      </p>
+      <Space>
+        <Button type="primary" onClick={() => setModalOpen(true)}>
+          {enabled ? '修改密码' : '设置密码'}
+        </Button>
+        {enabled && (
+          <Button danger onClick={onDisable}>
+            停用加密
+          </Button>
+        )}
+      </Space>
+      <Modal
+        open={modalOpen}
+        title={enabled ? '修改密码' : '设置密码'}
+        confirmLoading={loading}
+        onOk={() => form.submit()}
+        onCancel={() => setModalOpen(false)}
+      >
+        <p className="mb-4 text-sm text-ant-color-warning">
+          密码不会被保存，忘记密码后只能清除已保存的账号信息。
+        </p>
+        <Form<PassphraseFormValues>
+          form={form}
+          labelCol={{ span: 5 }}
+          onFinish={onFinish}
+        >
+          <Form.Item
+            name="passphrase"
+            label="新密码"
+            rules={[
+              { required: true, message: '请输入密码' },
+              { min: 6, message: '密码至少 6 位' },
+            ]}
+          >
+            <Input.Password autoComplete="new-password" />
+          </Form.Item>
+          <Form.Item
+            name="confirm"
+            label="确认密码"
+            dependencies={['passphrase']}
+            rules={[
+              { required: true, message: '请再次输入密码' },
+              ({ getFieldValue }) => ({
+                validator: (_, value) =>
+                  !value || getFieldValue('passphrase') === value
+                    ? Promise.resolve()
+                    : Promise.reject(new Error('两次输入的密码不一致')),
+              }),
+            ]}
+          >
+            <Input.Password autoComplete="new-password" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </section>
+  );
+};
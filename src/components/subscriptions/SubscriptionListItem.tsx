@@ -0,0 +1,141 @@
+/* eslint-disable react/prop-types */
+import { dialog } from '@tauri-apps/api';
+import { App, Avatar, Button, Select, Switch, Tooltip } from 'antd';
+import dayjs from 'dayjs';
+import React from 'react';
+import { SUBSCRIPTION_INTERVAL_OPTIONS } from '../../constants/subscriptions';
+import { Subscription } from '../../interfaces/Subscription';
+import { useDownloadStore } from '../../stores/download';
+import { useSubscriptionStore } from '../../stores/subscriptions';
+import { buildUserUrl } from '../../twitter/url';
+import { SkipReasonList } from '../SkipReasonList';
+
+export interface SubscriptionListItemProps {
+  subscription: Subscription;
+}
+
+const TIME_FORMAT = 'YYYY-MM-DD HH:mm';
+
+export const SubscriptionListItem: React.FC<SubscriptionListItemProps> = ({
+  subscription: s,
+}) => {
+  const { message } = App.useApp();
+  const { updateSubscription, removeSubscription, markSubscriptionQueued } =
+    useSubscriptionStore((state) => ({
+      updateSubscription: state.updateSubscription,
+      removeSubscription: state.removeSubscription,
+      markSubscriptionQueued: state.markSubscriptionQueued,
+    }));
+  const { running, createCreationTask } = useDownloadStore((state) => ({
+    running: state.creationTasks.some((t) => t.subscriptionId === s.id),
+    createCreationTask: state.createCreationTask,
+  }));
+
+  const runNow = () => {
+    createCreationTask(s.user, s.filter, {
+      subscriptionId: s.id,
+      output: s.output,
+    });
+    markSubscriptionQueued(s.id);
+    message.success('已加入爬取队列，请到下载管理页查看');
+  };
+
+  const remove = async () => {
+    if (
+      await dialog.confirm(
+        `确认取消订阅 ${s.user.name || s.user.screenName}？\n已下载的文件不会被删除。`,
+        {
+          okLabel: '取消订阅',
+          cancelLabel: '取消',
+          type: 'warning',
+          title: '取消订阅',
+        },
+      )
+    ) {
+      removeSubscription(s.id);
+    }
+  };
+
+  return (
+    <li className="bg-white border-[1px] border-gray-300 rounded-md p-4 flex items-center">
+      <a
+        href={buildUserUrl(s.user.screenName)}
+        target="_blank"
+        rel="noreferrer"
+        className="flex items-center shrink-0 w-60 overflow-hidden"
+        title="跳转到主页"
+      >
+        <Avatar src={s.user.avatar} size={40} alt="头像" />
+        <div className="ml-2 overflow-hidden">
+          <p className="whitespace-nowrap overflow-hidden text-ellipsis">
+            {s.user.name || '未知用户'}
+          </p>
+          <p className="text-ant-color-text-secondary text-sm">
+            @{s.user.screenName}
+          </p>
+        </div>
+      </a>
+      <div className="grow text-sm space-y-1 px-4 overflow-hidden">
+        <p>
+          下次同步：
+          {!s.enabled
+            ? '已停用'
+            : running
+              ? '同步中'
+              : dayjs(s.nextRunAt).format(TIME_FORMAT)}
+        </p>
+        <p>
+          上次结果：
+          {s.lastResult ? (
+            <span
+              className={s.lastResult.error ? 'text-red-500' : undefined}
+              title={s.lastResult.error}
+            >
+              {dayjs(s.lastResult.finishedAt).format(TIME_FORMAT)}，
+              {s.lastResult.error ? (
+                `失败：${s.lastResult.error}`
+              ) : (
+                <>
+                  {`已发送 ${s.lastResult.completeCount}，`}
+                  <Tooltip
+                    title={
+                      s.lastResult.skipReasons && (
+                        <SkipReasonList counts={s.lastResult.skipReasons} />
+                      )
+                    }
+                  >
+                    <span>{`已跳过 ${s.lastResult.skipCount}`}</span>
+                  </Tooltip>
+                </>
+              )}
+            </span>
+          ) : (
+            '暂无'
+          )}
+        </p>
+      </div>
+      <div className="flex items-center space-x-2 shrink-0">
+        <Select
+          size="small"
+          className="w-28"
+          aria-label="同步间隔"
+          value={s.interval}
+          options={SUBSCRIPTION_INTERVAL_OPTIONS}
+          onChange={(interval) => updateSubscription(s.id, { interval })}
+        />
+        <Switch
+          size="small"
+          aria-label="启用订阅"
+          checked={s.enabled}
+          onChange={(enabled) => updateSubscription(s.id, { enabled })}
+        />
+        <Button size="small" disabled={running} onClick={runNow}>
+          立即同步
+        </Button>
+        <Button size="small" danger onClick={remove}>
+          删除
+        </Button>
+      </div>
+    </li>
+  );
+};
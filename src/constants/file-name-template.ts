@@ -4,13 +4,14 @@ import { TwitterUser } from '../interfaces/TwitterUser';
 import * as R from 'ramda';
 import { FileNameTemplateData } from '../interfaces/FileNameTemplateData';
 import MediaType from '../enums/MediaType';
-import { getDownloadUrl } from '../twitter/utils';
+import { getDownloadUrl, getPhotoFormat } from '../twitter/utils';
 import dayjs from 'dayjs';
 import { unicodeSubstring } from '../utils/unicode';
 
 export const EXAMPLE_USER: Required<TwitterUser> = {
   avatar:
     'https://pbs.twimg.com/profile_images/1440258619912585220/KiYN-52Z_normal.jpg',
+  banner: 'https://pbs.twimg.com/profile_banners/1145141919/1705756536',
   name: '这是用户昵称',
   screenName: 'userscreenname',
   id: '1145141919',
@@ -18,8 +19,15 @@ export const EXAMPLE_USER: Required<TwitterUser> = {
   registerTime: dayjs('2024-01-01'),
 };
 
-export const EXAMPLE_POST: Required<TwitterPost> = {
+// 示例推文不是转推或回复，也没有引用推文
+export const EXAMPLE_POST: Required<
+  Omit<
+    TwitterPost,
+    'retweetedPost' | 'quotedPost' | 'inReplyToPostId' | 'inReplyToUserId'
+  >
+> = {
   id: '1145141919810',
+  conversationId: '1145141919810',
   views: 13496,
   createdAt: dayjs(1705756536000),
   bookmarkCount: 1,
@@ -102,6 +110,42 @@ export const REPLACER_MAP: Record<
     desc: '用户名',
     replacer: R.path(['post', 'user', 'screenName']),
   },
+  ORIGIN_POST_ID: {
+    desc: '原推文 ID（转推或引用时为原推文，否则同推文 ID）',
+    replacer: (data) => (data.origin || data.post).id,
+  },
+  ORIGIN_USER_ID: {
+    desc: '原推文用户 ID',
+    replacer: (data) => (data.origin || data.post).user?.id,
+  },
+  ORIGIN_USER_NAME: {
+    desc: '原推文用户昵称',
+    replacer: (data) => (data.origin || data.post).user?.name,
+  },
+  ORIGIN_USER_SCREEN_NAME: {
+    desc: '原推文用户名',
+    replacer: (data) => (data.origin || data.post).user?.screenName,
+  },
+  IS_RETWEET: {
+    desc: '是否为转推',
+    params: [
+      { name: 't', desc: '是转推时的文字', default: 'RT' },
+      { name: 'f', desc: '不是转推时的文字', default: '' },
+    ],
+    replacer: (data, params) =>
+      data.post.retweetedPost ? params.t ?? 'RT' : params.f ?? '',
+  },
+  IS_QUOTE: {
+    desc: '是否为引用推文中的媒体',
+    params: [
+      { name: 't', desc: '是引用时的文字', default: 'QT' },
+      { name: 'f', desc: '不是引用时的文字', default: '' },
+    ],
+    replacer: (data, params) =>
+      data.origin && data.origin !== data.post.retweetedPost
+        ? params.t ?? 'QT'
+        : params.f ?? '',
+  },
   MEDIA_ID: {
     desc: '资源 ID',
     replacer: R.path(['media', 'id']),
@@ -118,7 +162,9 @@ export const REPLACER_MAP: Record<
     desc: '资源索引',
     replacer: (data) =>
       (
-        data.post.medias!.findIndex((media) => media.id === data.media.id) + 1
+        ((data.origin || data.post).medias || []).findIndex(
+          (media) => media.id === data.media.id,
+        ) + 1
       ).toString(),
   },
   CONTENT: {
@@ -142,16 +188,56 @@ export const REPLACER_MAP: Record<
     desc: '媒体类型',
     replacer: (data) => data.media.type,
   },
+  MEDIA_BITRATE: {
+    desc: '视频码率',
+    replacer: (data) =>
+      data.variant?.bitrate
+        ? `${Math.round(data.variant.bitrate / 1000)}kbps`
+        : '',
+  },
+  MEDIA_RESOLUTION: {
+    desc: '资源分辨率（视频为实际下载的清晰度）',
+    replacer: (data) => {
+      const { width, height } = data.variant || data.media;
+      return width && height ? `${width}x${height}` : '';
+    },
+  },
   EXT: {
-    desc: '扩展名',
-    replacer: R.pipe(
-      (data) => getDownloadUrl(data.media),
-      R.split('.'),
-      R.last,
-      R.split('?'),
-      R.head,
-      (s) => `.${s}`,
-    ),
+    desc: '扩展名（实际下载的格式）',
+    replacer: (data) => {
+      if (data.format) return `.${data.format}`;
+      if (data.media.type === MediaType.Photo) {
+        return `.${getPhotoFormat(data.media)}`;
+      }
+      return R.pipe(
+        (url: string) => new URL(url).pathname,
+        R.split('.'),
+        R.last,
+        (s) => `.${s}`,
+      )(data.variant?.url || getDownloadUrl(data.media));
+    },
+  },
+  THREAD_ID: {
+    desc: '回复串 ID（回复串第一条推文的 ID）',
+    replacer: (data) =>
+      data.thread?.id || data.post.conversationId || data.post.id,
+  },
+  THREAD_INDEX: {
+    desc: '在回复串中的序号（仅下载回复串时有值）',
+    params: [
+      {
+        name: 'w',
+        desc: '补零后的位数',
+        default: '2',
+      },
+    ],
+    replacer: (data, params) => {
+      if (!data.thread) return '';
+      const width = Number(params.w);
+      return data.thread.index
+        .toString()
+        .padStart(Number.isNaN(width) ? 2 : width, '0');
+    },
   },
   TAGS: {
     desc: '推文标签',
@@ -0,0 +1,143 @@
+import MediaType from '../enums/MediaType';
+import {
+  FilterExpressionContext,
+  FilterExpressionField,
+} from '../interfaces/FilterExpressionField';
+import { TwitterPost } from '../interfaces/TwitterPost';
+import { getMediaOrigin } from '../twitter/utils';
+import { getMediaOrientation } from '../utils/download-filter';
+
+/**
+ * 媒体所属的推文：转推为原推文，引用推文中的媒体为被引用的推文
+ */
+const getOwnerPost = ({ post, media }: FilterExpressionContext): TwitterPost =>
+  getMediaOrigin(post, media) || post;
+
+const MEDIA_TYPE_NAMES: Record<MediaType, string> = {
+  [MediaType.Photo]: 'photo',
+  [MediaType.Video]: 'video',
+  [MediaType.Gif]: 'gif',
+};
+
+export const FILTER_EXPRESSION_FIELDS: Record<string, FilterExpressionField> = {
+  type: {
+    desc: '媒体类型：photo、video、gif',
+    type: 'string',
+    get: ({ media }) => MEDIA_TYPE_NAMES[media.type],
+  },
+  width: {
+    desc: '媒体宽度（像素）',
+    type: 'number',
+    get: ({ media }) => media.width,
+  },
+  height: {
+    desc: '媒体高度（像素）',
+    type: 'number',
+    get: ({ media }) => media.height,
+  },
+  megapixels: {
+    desc: '媒体像素数（百万像素）',
+    type: 'number',
+    get: ({ media }) =>
+      media.width && media.height
+        ? (media.width * media.height) / 1e6
+        : undefined,
+  },
+  orientation: {
+    desc: '画面方向：landscape、portrait、square',
+    type: 'string',
+    get: ({ media }) => getMediaOrientation(media),
+  },
+  duration: {
+    desc: '视频时长（秒），仅视频有',
+    type: 'number',
+    get: ({ media }) =>
+      media.type === MediaType.Video && media.videoInfo?.duration
+        ? media.videoInfo.duration / 1000
+        : undefined,
+  },
+  likes: {
+    desc: '喜欢数',
+    type: 'number',
+    get: (ctx) => getOwnerPost(ctx).favoriteCount,
+  },
+  retweets: {
+    desc: '转推数',
+    type: 'number',
+    get: (ctx) => getOwnerPost(ctx).retweetCount,
+  },
+  replies: {
+    desc: '回复数',
+    type: 'number',
+    get: (ctx) => getOwnerPost(ctx).replyCount,
+  },
+  bookmarks: {
+    desc: '书签数',
+    type: 'number',
+    get: (ctx) => getOwnerPost(ctx).bookmarkCount,
+  },
+  views: {
+    desc: '浏览量，较早的推文没有',
+    type: 'number',
+    get: (ctx) => getOwnerPost(ctx).views,
+  },
+  sensitive: {
+    desc: '是否为敏感内容',
+    type: 'boolean',
+    get: (ctx) => !!getOwnerPost(ctx).possiblySensitive,
+  },
+  lang: {
+    desc: '推文语言代码，如 ja、zh',
+    type: 'string',
+    get: (ctx) => getOwnerPost(ctx).lang,
+  },
+  text: {
+    desc: '推文正文',
+    type: 'string',
+    get: (ctx) => getOwnerPost(ctx).fullText || '',
+  },
+  tags: {
+    desc: '话题标签列表，不含 #',
+    type: 'list',
+    get: (ctx) => getOwnerPost(ctx).tags || [],
+  },
+  user: {
+    desc: '推文作者的用户名（不含 @）',
+    type: 'string',
+    get: (ctx) => getOwnerPost(ctx).user?.screenName,
+  },
+  date: {
+    desc: '发布日期，如 2024-01-01',
+    type: 'string',
+    get: (ctx) => getOwnerPost(ctx).createdAt?.format('YYYY-MM-DD'),
+  },
+  is_retweet: {
+    desc: '是否为转推',
+    type: 'boolean',
+    get: ({ post }) => !!post.retweetedPost,
+  },
+  is_quote: {
+    desc: '是否为引用推文中的媒体',
+    type: 'boolean',
+    get: (ctx) => {
+      const origin = getMediaOrigin(ctx.post, ctx.media);
+      return !!origin && origin !== ctx.post.retweetedPost;
+    },
+  },
+  is_reply: {
+    desc: '是否为回复',
+    type: 'boolean',
+    get: (ctx) => !!getOwnerPost(ctx).inReplyToPostId,
+  },
+};
+
+export const FILTER_EXPRESSION_KEYWORDS = [
+  'and',
+  'or',
+  'not',
+  'contains',
+  'matches',
+  'in',
+  'true',
+  'false',
+];
@@ -4,11 +4,13 @@ import {
   SettingFilled,
   DownloadOutlined,
   InfoCircleFilled,
+  BellFilled,
 } from '@ant-design/icons';
 import { Homepage } from '../pages/Homepage';
 import { DownloadManagement } from '../pages/DownloadManagement';
 import { Settings } from '../pages/Settings';
 import { About } from '../pages/About';
+import { Subscriptions } from '../pages/Subscriptions';
 
 export const ROUTES: Route[] = [
   {
@@ -23,6 +25,12 @@ export const ROUTES: Route[] = [
     icon: <DownloadOutlined />,
     element: <DownloadManagement />,
   },
+  {
+    id: 'subscriptions',
+    name: '订阅',
+    icon: <BellFilled />,
+    element: <Subscriptions />,
+  },
   {
     id: 'settings',
     name: '设置',
@@ -12,6 +12,12 @@ export const DEFAULT_SETTINGS: Settings = {
     fileNameTemplate:
       '%POST_TIME% %USER_SCREEN_NAME% %POST_ID%-%MEDIA_INDEX%%EXT%',
     sameFileSkip: true,
+    downloadedSkip: true,
+    videoVariantPolicy: 'highest',
+    videoMaxResolution: 720,
+    videoContentType: 'video/mp4',
+    photoSize: 'orig',
+    photoFormat: 'original',
   },
   app: {
     autoCheckUpdate: true,
@@ -20,4 +26,4 @@ export const DEFAULT_SETTINGS: Settings = {
   },
 };
 
-export const CURRENT_SETTINGS_VERSION = 2;
+export const CURRENT_SETTINGS_VERSION = 5;
@@ -0,0 +1,23 @@
+import { SkipReason } from '../interfaces/SkipReason';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  dateRange: '不在日期范围内',
+  synced: '上次已同步',
+  retweet: '转推',
+  otherReplies: '与其他人的对话',
+  mediaType: '媒体类型不符',
+  resolution: '分辨率过低',
+  duration: '视频时长不符',
+  orientation: '画面方向不符',
+  favoriteCount: '喜欢数不足',
+  retweetCount: '转推数不足',
+  views: '浏览量不足',
+  sensitive: '敏感内容不符',
+  lang: '语言不符',
+  keywordInclude: '不含指定关键词',
+  keywordExclude: '包含排除的关键词',
+  expression: '不符合过滤表达式',
+  downloaded: '已下载过',
+  sameFile: '存在同名文件',
+  profileImageUnchanged: '头像或横幅未变化',
+};
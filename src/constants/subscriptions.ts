@@ -0,0 +1,9 @@
+export const SUBSCRIPTION_INTERVAL_OPTIONS = [
+  { label: '每小时', value: 60 },
+  { label: '每 3 小时', value: 3 * 60 },
+  { label: '每 6 小时', value: 6 * 60 },
+  { label: '每 12 小时', value: 12 * 60 },
+  { label: '每天', value: 24 * 60 },
+  { label: '每 3 天', value: 3 * 24 * 60 },
+  { label: '每周', value: 7 * 24 * 60 },
+];
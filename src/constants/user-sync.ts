@@ -0,0 +1,10 @@
+import { DownloadFilter } from '../interfaces/DownloadFilter';
+
+/**
+ * 以用户时间线为下载源，可以记录同步进度，各下载源的进度分别记录
+ */
+export const USER_TIMELINE_SOURCES: DownloadFilter['source'][] = [
+  'medias',
+  'tweets',
+  'replies',
+];
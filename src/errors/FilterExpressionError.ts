@@ -0,0 +1,12 @@
+export class FilterExpressionError extends Error {
+  /**
+   * @param reason 错误原因
+   * @param position 出错位置在表达式中的下标
+   */
+  constructor(
+    public reason: string,
+    public position: number,
+  ) {
+    super(`过滤表达式有误：${reason}（第 ${position + 1} 个字符）`);
+  }
+}
@@ -0,0 +1,18 @@
+import dayjs from 'dayjs';
+
+export class RateLimitError extends Error {
+  /**
+   * @param operationName 触发限制的接口
+   * @param resetAt 限制解除的时间戳（毫秒）
+   * @param accountId 触发限制的账号
+   */
+  constructor(
+    public operationName: string,
+    public resetAt: number,
+    public accountId = '',
+  ) {
+    super(
+      `接口 ${operationName} 请求过于频繁，将于 ${dayjs(resetAt).format('HH:mm:ss')} 解除限制`,
+    );
+  }
+}
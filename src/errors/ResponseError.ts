@@ -0,0 +1,5 @@
+export class ResponseError extends Error {
+  constructor(public status: number) {
+    super(`Response error: status=${status}`);
+  }
+}
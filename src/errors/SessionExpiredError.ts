@@ -0,0 +1,5 @@
+export class SessionExpiredError extends Error {
+  constructor(message?: string) {
+    super(message || '账号登录已失效，请重新登录。');
+  }
+}
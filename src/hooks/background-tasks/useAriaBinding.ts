@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useResolvedProxyUrl } from '../useResolvedProxyUrl';
 import { aria2 } from '../../utils/aria2';
+import { hlsDownloader } from '../../utils/hls';
 import { useDownloadStore } from '../../stores/download';
 
 /**
@@ -31,5 +32,11 @@ export function useAriaBinding() {
     aria2.onDownloadPause.listen(onAria2StatusChanged);
     aria2.onDownloadStart.listen(onAria2StatusChanged);
     aria2.onDownloadStop.listen(onAria2StatusChanged);
+
+    // HLS 下载器的事件与 Aria2 一致
+    hlsDownloader.onDownloadComplete.listen(onAria2StatusChanged);
+    hlsDownloader.onDownloadError.listen(onAria2StatusChanged);
+    hlsDownloader.onDownloadPause.listen(onAria2StatusChanged);
+    hlsDownloader.onDownloadStart.listen(onAria2StatusChanged);
   }, []);
 }
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useAppStateStore } from '../../stores/app-state';
+import { useSessionStore } from '../../stores/session';
+
+const CHECK_INTERVAL = 10 * 60 * 1000;
+
+/**
+ * 定期检查所有账号的登录状态，账号重新登录后立即检查
+ */
+export function useSessionHealthCheck() {
+  const accountsKey = useAppStateStore((s) =>
+    s.accounts.map((a) => `${a.id}:${a.cookieString}`).join(','),
+  );
+
+  useEffect(() => {
+    const check = async () => {
+      const { accounts } = useAppStateStore.getState();
+      for (const account of accounts) {
+        await useSessionStore.getState().checkSession(account);
+      }
+    };
+
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL);
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [accountsKey]);
+}
@@ -0,0 +1,62 @@
+import { useEffect } from 'react';
+import { useEvent } from '../useEvent';
+import {
+  onCreationTaskFinished,
+  useDownloadStore,
+} from '../../stores/download';
+import { useSubscriptionStore } from '../../stores/subscriptions';
+
+const CHECK_INTERVAL = 30 * 1000;
+
+/**
+ * 定期为到期的订阅创建爬取任务
+ */
+export function useSubscriptionScheduler() {
+  useEvent(
+    ({ task, aborted, error }) => {
+      if (!task.subscriptionId) return;
+      useSubscriptionStore
+        .getState()
+        .reportSubscriptionResult(task.subscriptionId, {
+          finishedAt: Date.now(),
+          completeCount: task.completeCount,
+          skipCount: task.skipCount,
+          skipReasons: task.skipReasons,
+          error: error || (aborted ? '已取消' : undefined),
+        });
+    },
+    onCreationTaskFinished,
+    [],
+  );
+
+  useEffect(() => {
+    const check = () => {
+      const now = Date.now();
+      const { subscriptions, markSubscriptionQueued } =
+        useSubscriptionStore.getState();
+      const { creationTasks, createCreationTask } = useDownloadStore.getState();
+
+      subscriptions
+        .filter(
+          (s) =>
+            s.enabled &&
+            s.nextRunAt <= now &&
+            !creationTasks.some((t) => t.subscriptionId === s.id),
+        )
+        .forEach((s) => {
+          log.info('Run subscription', s);
+          createCreationTask(s.user, s.filter, {
+            subscriptionId: s.id,
+            output: s.output,
+          });
+          markSubscriptionQueued(s.id, now);
+        });
+    };
+
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL);
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, []);
+}
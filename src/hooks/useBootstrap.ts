@@ -1,9 +1,31 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { aria2 } from '../utils/aria2';
+import { useDownloadStore } from '../stores/download';
+import { useAppStateStore } from '../stores/app-state';
+import { vault } from '../stores/persist/vault';
 
 export function useBootstrap() {
   const [ready, setReady] = useState(false);
   const [error, setError] = useState('');
+  const [locked, setLocked] = useState(false);
+  const unlockedCallbackRef = useRef<() => void>();
+
+  /**
+   * 使用密码解锁加密数据，密码错误时返回 false
+   */
+  const unlock = async (passphrase: string) => {
+    const success = await vault.unlock(passphrase);
+    if (success) unlockedCallbackRef.current?.();
+    return success;
+  };
+
+  /**
+   * 忘记密码时清除加密配置，已加密的账号信息会被丢弃
+   */
+  const resetVault = async () => {
+    await vault.reset();
+    unlockedCallbackRef.current?.();
+  };
 
   useEffect(() => {
     (async () => {
@@ -12,6 +34,20 @@ export function useBootstrap() {
         fn: () => Promise<void>;
       }
       const flows: BootConfig[] = [
+        {
+          name: 'app-state',
+          async fn() {
+            await vault.load();
+            if (vault.enabled) {
+              setLocked(true);
+              await new Promise<void>((resolve) => {
+                unlockedCallbackRef.current = resolve;
+              });
+              setLocked(false);
+            }
+            await useAppStateStore.persist.rehydrate();
+          },
+        },
         {
           name: 'aria',
           async fn() {
@@ -23,6 +59,18 @@ export function useBootstrap() {
             }
           },
         },
+        {
+          name: 'download-tasks',
+          async fn() {
+            try {
+              await useDownloadStore.persist.rehydrate();
+              await useDownloadStore.getState().restoreDownloadTasks();
+            } catch (err) {
+              // 恢复失败不影响应用启动
+              log.error('Restore download tasks failed', err);
+            }
+          },
+        },
       ];
 
       for (const item of flows) {
@@ -40,5 +88,5 @@ export function useBootstrap() {
     })();
   }, []);
 
-  return { ready, error };
+  return { ready, error, locked, unlock, resetVault };
 }
@@ -2,10 +2,14 @@ import { usePollSystemProxyUrl } from './background-tasks/usePollSystemProxyUrl'
 import { useAriaBinding } from './background-tasks/useAriaBinding';
 import { useTaskNotifications } from './background-tasks/useTaskNotifications';
 import { useAutoCheckUpdate } from './background-tasks/useAutoCheckUpdate';
+import { useSubscriptionScheduler } from './background-tasks/useSubscriptionScheduler';
+import { useSessionHealthCheck } from './background-tasks/useSessionHealthCheck';
 
 export function useRunBackgroundTasks() {
   useTaskNotifications();
   useAutoCheckUpdate();
   usePollSystemProxyUrl();
   useAriaBinding();
+  useSubscriptionScheduler();
+  useSessionHealthCheck();
 }
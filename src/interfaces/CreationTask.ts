@@ -1,11 +1,41 @@
 import { DownloadFilter } from './DownloadFilter';
+import { DownloadOutput } from './DownloadOutput';
+import { SkipReasonCounts } from './SkipReason';
+import { TwitterList } from './TwitterList';
 import { TwitterUser } from './TwitterUser';
 
 export interface CreationTask {
   id: string;
-  user: TwitterUser;
+  /**
+   * 下载源为用户时间线时对应的用户
+   */
+  user?: TwitterUser;
+  /**
+   * 下载源为列表时对应的列表信息，用于展示
+   */
+  list?: TwitterList;
   filter: DownloadFilter;
   status: 'waiting' | 'active';
   completeCount: number;
   skipCount: number;
+  /**
+   * 按原因分类的跳过数量，总数为 skipCount
+   */
+  skipReasons?: SkipReasonCounts;
+  /**
+   * 由订阅自动创建时对应的订阅 ID
+   */
+  subscriptionId?: string;
+  /**
+   * 固定使用的账号 ID，为空时从当前账号开始，遇到限流或账号失效时轮换其他账号
+   */
+  accountId?: string;
+  /**
+   * 触发接口频率限制时，限制解除的时间戳（毫秒），任务会暂停到该时间
+   */
+  rateLimitResetAt?: number;
+  /**
+   * 使用下载方案时的保存方式，为空时使用全局设置
+   */
+  output?: DownloadOutput;
 }
@@ -1,8 +1,102 @@
 import { Dayjs } from 'dayjs';
 import MediaType from '../enums/MediaType';
 
+export type MediaOrientation = 'landscape' | 'portrait' | 'square';
+
 export interface DownloadFilter {
   dateRange?: [start: Dayjs, end: Dayjs];
   mediaTypes?: MediaType[];
-  source: 'medias' | 'tweets';
+  source:
+    | 'medias'
+    | 'tweets'
+    | 'replies'
+    | 'search'
+    | 'likes'
+    | 'bookmarks'
+    | 'list';
+  /**
+   * 下载源为搜索时的搜索语句，支持高级搜索语法，如：#artfight filter:media
+   */
+  searchQuery?: string;
+  searchProduct?: 'Latest' | 'Media';
+  /**
+   * 下载源为列表时的列表 ID
+   */
+  listId?: string;
+  /**
+   * 仅下载上次同步后发布的新帖子，遇到已同步过的帖子时停止翻页
+   */
+  onlyNew?: boolean;
+  /**
+   * 同时下载用户的原尺寸头像与横幅，内容未变化时不会重复保存
+   */
+  includeProfileImages?: boolean;
+  /**
+   * 是否下载转推的媒体，为空时帖子下载源不下载，其他下载源下载
+   */
+  includeRetweets?: boolean;
+  /**
+   * 是否下载引用推文中的媒体，为空时不下载
+   */
+  includeQuotes?: boolean;
+  /**
+   * 下载源为回复时只保留用户自己的推文及回复自己的回复串，排除与其他人的对话
+   */
+  selfRepliesOnly?: boolean;
+  /**
+   * 媒体的最小宽度与高度（像素），缺少尺寸信息的媒体不过滤
+   */
+  minWidth?: number;
+  minHeight?: number;
+  /**
+   * 媒体的最小像素数，单位百万像素
+   */
+  minMegapixels?: number;
+  /**
+   * 视频时长范围，单位秒，只对视频生效
+   */
+  minDuration?: number;
+  maxDuration?: number;
+  /**
+   * 保留的画面方向，为空时不限
+   */
+  orientations?: MediaOrientation[];
+  /**
+   * 推文的最少喜欢数、转推数与浏览量，转推按原推文计算
+   */
+  minFavoriteCount?: number;
+  minRetweetCount?: number;
+  minViews?: number;
+  /**
+   * 敏感内容：only 仅下载敏感内容，exclude 排除敏感内容，为空时不限
+   */
+  sensitive?: 'only' | 'exclude';
+  /**
+   * 推文语言代码，如 ja、zh，为空时不限
+   */
+  langs?: string[];
+  /**
+   * 推文正文或话题标签包含任一关键词时才下载，为空时不限。话题标签可写作 #标签
+   */
+  includeKeywords?: string[];
+  /**
+   * 推文正文或话题标签包含任一关键词时跳过
+   */
+  excludeKeywords?: string[];
+  /**
+   * 关键词按正则表达式匹配
+   */
+  keywordRegex?: boolean;
+  /**
+   * 关键词区分大小写，为空时不区分
+   */
+  keywordCaseSensitive?: boolean;
+  /**
+   * 关键词只匹配完整的单词，如 WIP 不匹配 WIPE
+   */
+  keywordWholeWord?: boolean;
+  /**
+   * 过滤表达式，对每个媒体求值，结果为假时跳过，语法见 utils/filter-expression
+   */
+  expression?: string;
 }
@@ -0,0 +1,7 @@
+export interface DownloadHistoryRecord {
+  mediaId: string;
+  postId: string;
+  userId: string;
+  path: string;
+  completedAt: number;
+}
@@ -0,0 +1,13 @@
+/**
+ * 存在同名文件时：skip 跳过，rename 自动重命名，overwrite 覆盖
+ */
+export type ConflictPolicy = 'skip' | 'rename' | 'overwrite';
+
+/**
+ * 下载方案中覆盖全局设置的保存方式
+ */
+export interface DownloadOutput {
+  dirTemplate: string;
+  fileNameTemplate: string;
+  conflictPolicy: ConflictPolicy;
+}
@@ -0,0 +1,13 @@
+import { DownloadFilter } from './DownloadFilter';
+import { DownloadOutput } from './DownloadOutput';
+
+export interface DownloadProfile {
+  id: string;
+  name: string;
+  /**
+   * 不包含日期范围，固定的日期范围保存后很快就会过时
+   */
+  filter: DownloadFilter;
+  output: DownloadOutput;
+  createdAt: number;
+}
@@ -1,6 +1,14 @@
 import { AriaStatus } from '../utils/aria2';
 import { TwitterMedia } from './TwitterMedia';
 import { TwitterPost } from './TwitterPost';
+import { ThreadPosition } from './ThreadPosition';
+import { DownloadOutput } from './DownloadOutput';
+
+/**
+ * - aria2：直接下载文件
+ * - hls：下载 HLS 播放列表中的分片并合并
+ */
+export type DownloaderType = 'aria2' | 'hls';
 
 export interface DownloadTask {
   gid: string;
@@ -14,5 +22,18 @@ export interface DownloadTask {
   error?: string;
   updatedAt: number;
   downloadUrl: string;
+  /**
+   * 下载链接不存在时依次尝试的备选链接，目前用于图片尺寸降级
+   */
+  fallbackUrls?: string[];
   ariaRetryCountRemains: number;
+  /**
+   * 旧版本创建的任务没有该字段，视为 aria2
+   */
+  downloader?: DownloaderType;
+  thread?: ThreadPosition;
+  /**
+   * 由下载方案创建时的保存方式，重新下载时沿用
+   */
+  output?: DownloadOutput;
 }
@@ -1,7 +1,24 @@
-import { TwitterMedia } from './TwitterMedia';
+import { TwitterMedia, TwitterVideoVariant } from './TwitterMedia';
 import { TwitterPost } from './TwitterPost';
+import { ThreadPosition } from './ThreadPosition';
 
 export interface FileNameTemplateData {
   post: TwitterPost;
   media: TwitterMedia;
+  /**
+   * 视频与 GIF 实际下载的清晰度
+   */
+  variant?: TwitterVideoVariant;
+  /**
+   * 实际下载的文件格式，如 jpg、png、mp4
+   */
+  format?: string;
+  /**
+   * 媒体所属的原推文（被转推或被引用的推文），媒体属于推文本身时为空
+   */
+  origin?: TwitterPost;
+  /**
+   * 通过下载回复串创建任务时推文在回复串中的位置
+   */
+  thread?: ThreadPosition;
 }
@@ -0,0 +1,24 @@
+import { TwitterMedia } from './TwitterMedia';
+import { TwitterPost } from './TwitterPost';
+
+export type FilterExpressionValueType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'list';
+
+export type FilterExpressionValue = number | string | boolean | string[];
+
+export interface FilterExpressionContext {
+  post: TwitterPost;
+  media: TwitterMedia;
+}
+
+export interface FilterExpressionField {
+  desc: string;
+  type: FilterExpressionValueType;
+  /**
+   * 数据缺失时返回 undefined，此时比较结果均为假
+   */
+  get: (ctx: FilterExpressionContext) => FilterExpressionValue | undefined;
+}
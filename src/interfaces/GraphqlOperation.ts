@@ -0,0 +1,5 @@
+export interface GraphqlOperation {
+  queryId: string;
+  operationName: string;
+  features: Record<string, boolean>;
+}
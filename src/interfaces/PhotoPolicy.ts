@@ -0,0 +1,17 @@
+/**
+ * 图片尺寸，按画质从高到低排列：
+ * - orig：原图
+ * - 4096x4096：最长边不超过 4096
+ * - large：最长边不超过 2048
+ */
+export type PhotoSize = 'orig' | '4096x4096' | 'large';
+
+/**
+ * 图片格式，original 表示保持推特上传时的格式
+ */
+export type PhotoFormat = 'original' | 'png' | 'jpg' | 'webp';
+
+export interface PhotoPolicy {
+  size: PhotoSize;
+  format: PhotoFormat;
+}
@@ -0,0 +1,8 @@
+export interface RateLimitState {
+  limit?: number;
+  remaining: number;
+  /**
+   * 限制重置的时间戳（毫秒）
+   */
+  resetAt: number;
+}
@@ -5,4 +5,8 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   body?: any;
   responseType: 'json' | 'text' | 'binary';
+  /**
+   * 本次请求使用的代理地址，设置后忽略设置中的代理配置
+   */
+  proxyUrl?: string;
 }
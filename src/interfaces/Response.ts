@@ -1,5 +1,8 @@
 export interface Response {
   status: number;
+  /**
+   * 错误响应的正文不是 JSON 时为原始文本
+   */
   body: any;
   headers: Record<string, string[]>;
 }
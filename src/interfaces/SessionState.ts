@@ -0,0 +1,8 @@
+export interface SessionState {
+  status: 'valid' | 'expired';
+  checkedAt: number;
+  /**
+   * 检查时使用的 Cookie，账号重新登录后 Cookie 变化，旧的检查结果不再有效
+   */
+  cookieString: string;
+}
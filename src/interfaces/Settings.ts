@@ -1,3 +1,6 @@
+import { VideoVariantPolicyType } from './VideoVariantPolicy';
+import { PhotoFormat, PhotoSize } from './PhotoPolicy';
+
 export interface Settings_V1 {
   proxy: {
     enable: boolean;
@@ -34,4 +37,72 @@ export interface Settings_V2 {
   };
 }
 
-export type Settings = Settings_V2;
+export interface Settings_V3 {
+  proxy: {
+    enable: boolean;
+    url: string;
+    useSystem: boolean;
+  };
+  download: {
+    saveDirBase: string;
+    dirTemplate: string;
+    fileNameTemplate: string;
+    sameFileSkip: boolean;
+    downloadedSkip: boolean;
+  };
+  app: {
+    autoCheckUpdate: boolean;
+    acceptPrerelease: boolean;
+    writeLogs: boolean;
+  };
+}
+
+export interface Settings_V4 {
+  proxy: {
+    enable: boolean;
+    url: string;
+    useSystem: boolean;
+  };
+  download: {
+    saveDirBase: string;
+    dirTemplate: string;
+    fileNameTemplate: string;
+    sameFileSkip: boolean;
+    downloadedSkip: boolean;
+    videoVariantPolicy: VideoVariantPolicyType;
+    videoMaxResolution: number;
+    videoContentType: string;
+  };
+  app: {
+    autoCheckUpdate: boolean;
+    acceptPrerelease: boolean;
+    writeLogs: boolean;
+  };
+}
+
+export interface Settings_V5 {
+  proxy: {
+    enable: boolean;
+    url: string;
+    useSystem: boolean;
+  };
+  download: {
+    saveDirBase: string;
+    dirTemplate: string;
+    fileNameTemplate: string;
+    sameFileSkip: boolean;
+    downloadedSkip: boolean;
+    videoVariantPolicy: VideoVariantPolicyType;
+    videoMaxResolution: number;
+    videoContentType: string;
+    photoSize: PhotoSize;
+    photoFormat: PhotoFormat;
+  };
+  app: {
+    autoCheckUpdate: boolean;
+    acceptPrerelease: boolean;
+    writeLogs: boolean;
+  };
+}
+
+export type Settings = Settings_V5;
@@ -0,0 +1,25 @@
+export type SkipReason =
+  | 'dateRange'
+  | 'synced'
+  | 'retweet'
+  | 'otherReplies'
+  | 'mediaType'
+  | 'resolution'
+  | 'duration'
+  | 'orientation'
+  | 'favoriteCount'
+  | 'retweetCount'
+  | 'views'
+  | 'sensitive'
+  | 'lang'
+  | 'keywordInclude'
+  | 'keywordExclude'
+  | 'expression'
+  | 'downloaded'
+  | 'sameFile'
+  | 'profileImageUnchanged';
+
+/**
+ * 各跳过原因对应的媒体数量
+ */
+export type SkipReasonCounts = Partial<Record<SkipReason, number>>;
@@ -0,0 +1,31 @@
+import { DownloadFilter } from './DownloadFilter';
+import { DownloadOutput } from './DownloadOutput';
+import { SkipReasonCounts } from './SkipReason';
+import { TwitterUser } from './TwitterUser';
+
+export interface SubscriptionRunResult {
+  finishedAt: number;
+  completeCount: number;
+  skipCount: number;
+  skipReasons?: SkipReasonCounts;
+  error?: string;
+}
+
+export interface Subscription {
+  id: string;
+  user: TwitterUser;
+  filter: DownloadFilter;
+  /**
+   * 订阅时所用下载方案的保存方式
+   */
+  output?: DownloadOutput;
+  /**
+   * 同步间隔（分钟）
+   */
+  interval: number;
+  enabled: boolean;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastResult?: SubscriptionRunResult;
+}
@@ -0,0 +1,13 @@
+/**
+ * 推文在作者回复串中的位置
+ */
+export interface ThreadPosition {
+  /**
+   * 回复串第一条推文的 ID
+   */
+  id: string;
+  /**
+   * 在回复串中的序号，从 1 开始
+   */
+  index: number;
+}
@@ -0,0 +1,14 @@
+export interface TwitterAccount {
+  id: string;
+  /**
+   * 用户自定义的备注名
+   */
+  label: string;
+  cookieString: string;
+  /**
+   * 该账号专用的代理地址，为空时使用设置中的代理
+   */
+  proxyUrl?: string;
+  screenName?: string;
+  avatar?: string;
+}
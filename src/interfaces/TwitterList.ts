@@ -0,0 +1,11 @@
+export interface TwitterList {
+  id: string;
+  name: string;
+  description?: string;
+  memberCount?: number;
+  banner?: string;
+  owner?: {
+    name: string;
+    screenName: string;
+  };
+}
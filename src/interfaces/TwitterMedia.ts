@@ -7,6 +7,17 @@ export interface TwitterMediaBase {
   height?: number;
 }
 
+export interface TwitterVideoVariant {
+  bitrate?: number;
+  contentType?: string;
+  url?: string;
+  /**
+   * 从下载链接中解析出的分辨率
+   */
+  width?: number;
+  height?: number;
+}
+
 export interface TwitterMediaPhoto extends TwitterMediaBase {
   type: MediaType.Photo;
 }
@@ -15,11 +26,7 @@ export interface TwitterMediaVideo extends TwitterMediaBase {
   type: MediaType.Video;
   videoInfo?: {
     duration: number;
-    variants?: {
-      bitrate?: number;
-      contentType?: string;
-      url?: string;
-    }[];
+    variants?: TwitterVideoVariant[];
     aspectRatio?: [number, number];
   };
 }
@@ -28,6 +35,7 @@ export interface TwitterMediaGif extends TwitterMediaBase {
   type: MediaType.Gif;
   videoInfo?: {
     url?: string;
+    variants?: TwitterVideoVariant[];
     aspectRatio?: [number, number];
   };
 }
@@ -19,4 +19,24 @@ export interface TwitterPost {
   bookmarkCount?: number;
   bookmarked?: boolean;
   medias?: TwitterMedia[];
+  /**
+   * 回复的推文 ID，不是回复时为空
+   */
+  inReplyToPostId?: string;
+  /**
+   * 回复的推文作者 ID
+   */
+  inReplyToUserId?: string;
+  /**
+   * 所在对话（回复串）第一条推文的 ID
+   */
+  conversationId?: string;
+  /**
+   * 转推时被转推的原推文，此时推文本身的用户为转推者
+   */
+  retweetedPost?: TwitterPost;
+  /**
+   * 引用的推文
+   */
+  quotedPost?: TwitterPost;
 }
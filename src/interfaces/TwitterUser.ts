@@ -3,6 +3,10 @@ import { Dayjs } from 'dayjs';
 export interface TwitterUser {
   screenName: string;
   avatar: string;
+  /**
+   * 横幅图片地址，未设置横幅时为空
+   */
+  banner?: string;
   name: string;
   id: string;
   mediaCount?: number;
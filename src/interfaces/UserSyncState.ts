@@ -0,0 +1,9 @@
+import { DownloadFilter } from './DownloadFilter';
+
+export interface UserSyncState {
+  userId: string;
+  source: DownloadFilter['source'];
+  lastPostId: string;
+  lastPostTime?: number;
+  lastSyncTime: number;
+}
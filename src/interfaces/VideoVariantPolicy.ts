@@ -0,0 +1,20 @@
+/**
+ * - highest：最高画质
+ * - maxResolution：不超过指定分辨率的最高画质
+ * - lowest：最小体积
+ * - contentType：优先指定格式
+ */
+export type VideoVariantPolicyType =
+  | 'highest'
+  | 'maxResolution'
+  | 'lowest'
+  | 'contentType';
+
+export interface VideoVariantPolicy {
+  type: VideoVariantPolicyType;
+  /**
+   * 分辨率上限，以短边计算，如 720 表示 720p
+   */
+  maxResolution: number;
+  contentType: string;
+}
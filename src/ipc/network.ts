@@ -33,8 +33,9 @@ export async function request(options: RequestOptions) {
         R.defaultTo('GET', options.method),
         url.href,
         R.defaultTo('', options.body),
-        settings.proxy.enable,
-        settings.proxy.useSystem ? '' : settings.proxy.url,
+        options.proxyUrl ? true : settings.proxy.enable,
+        options.proxyUrl ||
+          (settings.proxy.useSystem ? '' : settings.proxy.url),
         R.defaultTo({}, options.headers),
         options.responseType,
       );
@@ -1,3 +1,4 @@
+import { appWindow } from '@tauri-apps/api/window';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
 import './css/preflight.css';
@@ -7,6 +8,8 @@ import duration from 'dayjs/plugin/duration';
 import 'dayjs/locale/zh-cn';
 import './utils/log';
 import { Logger } from './utils/log';
+import { aria2 } from './utils/aria2';
+import { flushPendingWrites } from './stores/persist/tauri-file-storage';
 
 dayjs.extend(duration);
 dayjs.locale('zh-cn');
@@ -30,6 +33,31 @@ function bootstrapLogger() {
   });
 }
 
+/**
+ * 关闭窗口前写入尚未保存的状态与 Aria2 会话，完成后窗口才会关闭
+ */
+function bootstrapCloseHandler() {
+  appWindow.onCloseRequested(async () => {
+    log.info('Window close requested');
+    const results = await Promise.allSettled([
+      flushPendingWrites(),
+      aria2.saveSession(),
+    ]);
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        log.error('Save before close failed', result.reason);
+      }
+    });
+  });
+
+  // 刷新页面时无法等待写入完成，尽量提前开始写入
+  window.addEventListener('beforeunload', () => {
+    flushPendingWrites().catch((err) => {
+      log.error('Flush pending writes failed', err);
+    });
+  });
+}
+
 function bootstrapView() {
   log.info('Bootstrap view');
   ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
@@ -40,6 +68,7 @@ function bootstrapView() {
 async function bootstrap() {
   bootstrapLogger();
   log.info(`App bootstrap, version=${PACKAGE_JSON_VERSION}`);
+  bootstrapCloseHandler();
   bootstrapView();
 }
 
@@ -1,12 +1,22 @@
 /* eslint-disable react/prop-types */
 import { Avatar, Button, Input, Space, App } from 'antd';
+import { UnorderedListOutlined } from '@ant-design/icons';
 import React, { useRef } from 'react';
 import { PageHeader } from '../components/PageHeader';
 import { PostListGridView } from '../components/homepage/PostListGridView';
 import { DownloadController } from '../components/homepage/DownloadController';
-import { useAppStateStore } from '../stores/app-state';
+import { PostDetail } from '../components/homepage/PostDetail';
+import { selectCurrentAccount, useAppStateStore } from '../stores/app-state';
 import { useHomepageStore } from '../stores/homepage';
-import { buildUserUrl } from '../twitter/url';
+import {
+  buildListUrl,
+  buildUserUrl,
+  parseListUrl,
+  parseStatusUrl,
+} from '../twitter/url';
+import { selectSyncState, useUserSyncStore } from '../stores/user-sync';
+import { USER_TIMELINE_SOURCES } from '../constants/user-sync';
+import dayjs from 'dayjs';
 
 export const Homepage: React.FC = () => {
   const { message } = App.useApp();
@@ -17,15 +27,28 @@ export const Homepage: React.FC = () => {
     clearUser,
     loadUser,
     clearPostList: clearMediaList,
+    postDetail,
+    loadPostDetail,
+    clearPostDetail,
+    listInfo,
+    loadListInfo,
+    clearListInfo,
+    filter,
   } = useHomepageStore();
   const { searchHistory, addSearchHistory, clearSearchHistory, cookieString } =
     useAppStateStore((s) => ({
       searchHistory: s.searchHistory,
       addSearchHistory: s.addSearchHistory,
       clearSearchHistory: s.clearSearchHistory,
-      cookieString: s.cookieString,
+      cookieString: selectCurrentAccount(s)?.cookieString,
     }));
   const searchAbortControllerRef = useRef<AbortController>();
+  const { syncState, removeSyncState } = useUserSyncStore((s) => ({
+    syncState: userInfo.data
+      ? selectSyncState(s, userInfo.data.id, filter.source)
+      : undefined,
+    removeSyncState: s.removeSyncState,
+  }));
 
   const startSearch = async (sn: string) => {
     if (!sn) return;
@@ -38,6 +61,32 @@ export const Homepage: React.FC = () => {
 
     clearUser();
     clearMediaList();
+    clearPostDetail();
+    clearListInfo();
+
+    const listId = parseListUrl(sn);
+    if (listId) {
+      try {
+        await loadListInfo(listId);
+        addSearchHistory(sn);
+      } catch (err: any) {
+        log.error(err);
+        message.error('加载失败，请检查列表链接是否正确');
+      }
+      return;
+    }
+
+    const status = parseStatusUrl(sn);
+    if (status) {
+      try {
+        await loadPostDetail(status.postId);
+        addSearchHistory(sn);
+      } catch (err: any) {
+        log.error(err);
+        message.error('加载失败，请检查推文链接是否正确');
+      }
+      return;
+    }
 
     try {
       await loadUser(sn);
@@ -48,6 +97,8 @@ export const Homepage: React.FC = () => {
     }
   };
 
+  const loading = userInfo.loading || postDetail.loading || listInfo.loading;
+
   return (
     <div className="flex flex-col h-screen">
       <div>
@@ -58,28 +109,32 @@ export const Homepage: React.FC = () => {
               <Input
                 type="search"
                 autoComplete="search"
-                disabled={userInfo.loading || !cookieString}
+                disabled={loading || !cookieString}
                 onPressEnter={() => startSearch(keyword)}
                 value={keyword}
                 onChange={(e) => setKeyword(e.target.value)}
                 placeholder={
                   cookieString
-                    ? '请输入用户 ID，如：shiratamacaron'
+                    ? '请输入用户 ID、推文链接或列表链接，如：shiratamacaron'
                     : '请先登录后再搜索'
                 }
                 className="text-center"
               />
               <Button
                 disabled={!keyword || !cookieString}
-                loading={userInfo.loading}
+                loading={loading}
                 onClick={() => startSearch(keyword)}
                 type="primary"
               >
                 加载
               </Button>
-              {userInfo.loading && (
+              {loading && (
                 <span className="sr-only" role="status">
-                  加载用户信息中
+                  {postDetail.loading
+                    ? '加载推文中'
+                    : listInfo.loading
+                      ? '加载列表信息中'
+                      : '加载用户信息中'}
                 </span>
               )}
             </Space.Compact>
@@ -106,7 +161,7 @@ export const Homepage: React.FC = () => {
                   {searchHistory.map((sn) => (
                     <li key={sn} className="inline">
                       <Button
-                        disabled={userInfo.loading}
+                        disabled={loading}
                         type="link"
                         size="small"
                         onClick={() => {
@@ -123,47 +178,119 @@ export const Homepage: React.FC = () => {
               </section>
             )}
           </section>
+          {cookieString && <DownloadController />}
+          <PostDetail />
+          {listInfo.data && (
+            <section
+              aria-label="列表信息"
+              className="bg-white border-[1px] border-gray-300 rounded-md mt-4"
+            >
+              <span className="sr-only" role="status">
+                列表信息加载完成，当前列表：{listInfo.data.name}
+              </span>
+              <a
+                title="跳转到列表"
+                className="flex items-center p-4 focus:outline !outline-4 !outline-cyan-200"
+                href={buildListUrl(listInfo.data.id)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                <div>
+                  <Avatar
+                    src={listInfo.data.banner}
+                    icon={<UnorderedListOutlined />}
+                    shape="square"
+                    size={50}
+                    alt="列表封面"
+                  />
+                </div>
+                <div className="ml-2">
+                  <p>
+                    {listInfo.data.name}
+                    <span className="text-gray-400">
+                      （共 {listInfo.data.memberCount || 0} 位成员）
+                    </span>
+                  </p>
+                  {listInfo.data.owner && (
+                    <p className="text-ant-color-text-secondary text-sm mt-1">
+                      由 {listInfo.data.owner.name} @
+                      {listInfo.data.owner.screenName} 创建
+                    </p>
+                  )}
+                </div>
+              </a>
+              {listInfo.data.description && (
+                <p className="px-4 pb-4 -mt-2 text-sm text-ant-color-text-secondary">
+                  {listInfo.data.description}
+                </p>
+              )}
+            </section>
+          )}
           {userInfo.data && (
-            <>
-              <DownloadController />
-              <section
-                aria-label="用户信息"
-                className="bg-white border-[1px] border-gray-300 rounded-md mt-4"
+            <section
+              aria-label="用户信息"
+              className="bg-white border-[1px] border-gray-300 rounded-md mt-4"
+            >
+              <span className="sr-only" role="status">
+                用户信息加载完成，当前搜索用户：
+                {userInfo.data.name || '未知用户'}
+              </span>
+              <a
+                title="跳转到主页"
+                className="flex items-center p-4 focus:outline !outline-4 !outline-cyan-200"
+                href={
+                  userInfo.data.screenName
+                    ? buildUserUrl(userInfo.data.screenName)
+                    : 'javascript:void(0);'
+                }
+                target="_blank"
+                rel="noreferrer"
               >
-                <span className="sr-only" role="status">
-                  用户信息加载完成，当前搜索用户：
-                  {userInfo.data.name || '未知用户'}
-                </span>
-                <a
-                  title="跳转到主页"
-                  className="flex items-center p-4 focus:outline !outline-4 !outline-cyan-200"
-                  href={
-                    userInfo.data.screenName
-                      ? buildUserUrl(userInfo.data.screenName)
-                      : 'javascript:void(0);'
-                  }
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  <div>
-                    <Avatar src={userInfo.data.avatar} size={50} alt="头像" />
-                  </div>
-                  <div className="ml-2">
-                    <p>
-                      {userInfo.data.name || '未知用户'}
-                      <span className="text-gray-400">
-                        （共 {userInfo.data.mediaCount || 0} 个媒体）
-                      </span>
+                <div>
+                  <Avatar src={userInfo.data.avatar} size={50} alt="头像" />
+                </div>
+                <div className="ml-2">
+                  <p>
+                    {userInfo.data.name || '未知用户'}
+                    <span className="text-gray-400">
+                      （共 {userInfo.data.mediaCount || 0} 个媒体）
+                    </span>
+                  </p>
+                  {userInfo.data.screenName ? (
+                    <p className="text-ant-color-text-secondary text-sm mt-1">
+                      @{userInfo.data.screenName}
                     </p>
-                    {userInfo.data.screenName ? (
-                      <p className="text-ant-color-text-secondary text-sm mt-1">
-                        @{userInfo.data.screenName}
-                      </p>
-                    ) : undefined}
-                  </div>
-                </a>
-              </section>
-            </>
+                  ) : undefined}
+                </div>
+              </a>
+              {USER_TIMELINE_SOURCES.includes(filter.source) && (
+                <div className="px-4 pb-4 -mt-2 text-sm text-ant-color-text-secondary">
+                  {syncState ? (
+                    <>
+                      <span>
+                        上次同步：
+                        {dayjs(syncState.lastSyncTime).format(
+                          'YYYY-MM-DD HH:mm',
+                        )}
+                        {syncState.lastPostTime &&
+                          `（最新帖子发布于 ${dayjs(syncState.lastPostTime).format('YYYY-MM-DD HH:mm')}）`}
+                      </span>
+                      <Button
+                        type="link"
+                        size="small"
+                        onClick={() =>
+                          removeSyncState(syncState.userId, syncState.source)
+                        }
+                      >
+                        重置同步进度
+                      </Button>
+                    </>
+                  ) : (
+                    <span>尚未以当前下载源同步过该用户</span>
+                  )}
+                </div>
+              )}
+            </section>
           )}
         </div>
       </div>
@@ -3,15 +3,26 @@ import React from 'react';
 import { PageHeader } from '../components/PageHeader';
 import { Section } from '../components/settings/Section';
 import { Item } from '../components/settings/Item';
-import { DownloadOutlined, GlobalOutlined } from '@ant-design/icons';
+import {
+  DownloadOutlined,
+  GlobalOutlined,
+  LockOutlined,
+} from '@ant-design/icons';
 import Joi from 'joi';
 import { SavePathSelector } from '../components/settings/SavePathSelector';
-import { Button, Input, Switch } from 'antd';
+import { Button, Input, Select, Switch } from 'antd';
 import { FileNameTemplateInput } from '../components/settings/FileNameTemplateInput';
 import { showInFolder } from '../utils/shell';
 import { path } from '@tauri-apps/api';
+import { DownloadHistoryClearButton } from '../components/settings/DownloadHistoryClearButton';
+import { VaultPassphraseSetting } from '../components/settings/VaultPassphraseSetting';
+import { useSettingsStore } from '../stores/settings';
 
 export const Settings: React.FC = () => {
+  const videoVariantPolicy = useSettingsStore(
+    (s) => s.download.videoVariantPolicy,
+  );
+
   return (
     <>
       <PageHeader />
@@ -80,6 +91,89 @@ export const Settings: React.FC = () => {
         >
           <Switch />
         </Item>
+        <Item
+          settingKey="downloadedSkip"
+          label="跳过已下载媒体"
+          valuePropName="checked"
+          description="根据下载记录跳过曾经下载完成的媒体，不受文件名模板、文件夹模板修改或文件移动的影响"
+        >
+          <Switch />
+        </Item>
+        <Item
+          settingKey="videoVariantPolicy"
+          label="视频清晰度"
+          description="同时适用于视频与 GIF，可在文件名模板中使用 %MEDIA_BITRATE% 与 %MEDIA_RESOLUTION% 记录实际下载的清晰度"
+        >
+          <Select
+            className="w-60"
+            options={[
+              { label: '最高画质', value: 'highest' },
+              { label: '限制最高分辨率', value: 'maxResolution' },
+              { label: '最小体积', value: 'lowest' },
+              { label: '优先指定格式', value: 'contentType' },
+            ]}
+          />
+        </Item>
+        {videoVariantPolicy === 'maxResolution' && (
+          <Item
+            settingKey="videoMaxResolution"
+            label="最高分辨率"
+            description="选择不超过该分辨率的最高画质，没有符合条件的清晰度时选择最小体积"
+          >
+            <Select
+              className="w-60"
+              options={[360, 480, 720, 1080].map((value) => ({
+                label: `${value}p`,
+                value,
+              }))}
+            />
+          </Item>
+        )}
+        {videoVariantPolicy === 'contentType' && (
+          <Item
+            settingKey="videoContentType"
+            label="优先格式"
+            description="选择该格式中的最高画质，没有该格式时选择最高画质"
+          >
+            <Select
+              className="w-60"
+              options={[
+                { label: 'MP4', value: 'video/mp4' },
+                { label: 'HLS（m3u8）', value: 'application/x-mpegURL' },
+              ]}
+            />
+          </Item>
+        )}
+        <Item
+          settingKey="photoSize"
+          label="图片尺寸"
+          description="所选尺寸不存在时自动退回下一档尺寸"
+        >
+          <Select
+            className="w-60"
+            options={[
+              { label: '原图', value: 'orig' },
+              { label: '4096x4096', value: '4096x4096' },
+              { label: '大图（large）', value: 'large' },
+            ]}
+          />
+        </Item>
+        <Item
+          settingKey="photoFormat"
+          label="图片格式"
+          description="由推特服务器转换格式，%EXT% 会使用实际下载的格式"
+        >
+          <Select
+            className="w-60"
+            options={[
+              { label: '保持原格式', value: 'original' },
+              { label: 'PNG', value: 'png' },
+              { label: 'JPG', value: 'jpg' },
+              { label: 'WEBP', value: 'webp' },
+            ]}
+          />
+        </Item>
+        <DownloadHistoryClearButton />
       </Section>
       <Section title="代理" name="proxy" titleIcon={<GlobalOutlined />}>
         <Item label="启用代理" settingKey="enable" valuePropName="checked">
@@ -108,6 +202,9 @@ export const Settings: React.FC = () => {
           <Input placeholder="代理地址，例如：“http://127.0.0.1:7890”" />
         </Item>
       </Section>
+      <Section title="安全" name="security" titleIcon={<LockOutlined />}>
+        <VaultPassphraseSetting />
+      </Section>
       <Section title="应用" name="app">
         <Item
           label="自动检查更新"
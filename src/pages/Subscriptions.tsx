@@ -0,0 +1,34 @@
+/* eslint-disable react/prop-types */
+import { Empty } from 'antd';
+import React from 'react';
+import { PageHeader } from '../components/PageHeader';
+import { SubscriptionListItem } from '../components/subscriptions/SubscriptionListItem';
+import { useSubscriptionStore } from '../stores/subscriptions';
+
+export const Subscriptions: React.FC = () => {
+  const subscriptions = useSubscriptionStore((s) => s.subscriptions);
+
+  return (
+    <div className="pb-4">
+      <PageHeader />
+      {subscriptions.length === 0 ? (
+        <Empty
+          className="mt-10"
+          description="暂无订阅，可在主页加载用户后点击“订阅”"
+        />
+      ) : (
+        <>
+          <section className="text-sm text-ant-color-text-secondary">
+            共 {subscriptions.length}{' '}
+            个订阅，到期后会自动创建下载任务，仅下载上次同步后的新帖子。
+          </section>
+          <ul className="mt-3 space-y-3">
+            {subscriptions.map((s) => (
+              <SubscriptionListItem key={s.id} subscription={s} />
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
+import { nanoid } from 'nanoid';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { createTauriFileStorage } from './persist/tauri-file-storage';
+import { TwitterAccount } from '../interfaces/TwitterAccount';
+import { vault } from './persist/vault';
 
 export interface AppStateStore {
-  cookieString: string;
-  setCookieString: (cookieString: string) => void;
+  accounts: TwitterAccount[];
+  currentAccountId: string;
+  addAccount: (account: Omit<TwitterAccount, 'id'>) => TwitterAccount;
+  updateAccount: (account: TwitterAccount) => void;
+  removeAccount: (id: string) => void;
+  setCurrentAccountId: (id: string) => void;
 
   searchHistory: string[];
   addSearchHistory: (keyword: string) => void;
@@ -24,8 +31,33 @@ export interface AppStateStore {
 export const useAppStateStore = create(
   persist<AppStateStore>(
     (set, get) => ({
-      cookieString: '',
-      setCookieString: (cookieString) => set({ cookieString }),
+      accounts: [],
+      currentAccountId: '',
+      addAccount: (value) => {
+        const account = { ...value, id: nanoid() };
+        set({
+          accounts: get().accounts.concat(account),
+          currentAccountId: account.id,
+        });
+        return account;
+      },
+      updateAccount: (account) => {
+        set({
+          accounts: get().accounts.map((item) =>
+            item.id === account.id ? account : item,
+          ),
+        });
+      },
+      removeAccount: (id) => {
+        const accounts = get().accounts.filter((item) => item.id !== id);
+        const { currentAccountId } = get();
+        set({
+          accounts,
+          currentAccountId:
+            currentAccountId === id ? accounts[0]?.id || '' : currentAccountId,
+        });
+      },
+      setCurrentAccountId: (id) => set({ currentAccountId: id }),
       searchHistory: [],
       addSearchHistory: (keyword) => {
         const history = get().searchHistory;
@@ -54,8 +86,47 @@ export const useAppStateStore = create(
     }),
     {
       name: 'app-state',
-      storage: createTauriFileStorage(),
-      version: 1,
+      storage: createTauriFileStorage({ sensitiveKeys: ['accounts'] }),
+      version: 2,
+      // 账号信息可能已加密，需要在启动时解锁后再加载
+      skipHydration: true,
+      migrate(state: any, version) {
+        if (version === 1) {
+          // 旧版本只保存一个账号的 Cookie
+          const account: TwitterAccount | undefined = state.cookieString
+            ? {
+                id: nanoid(),
+                label: '默认账号',
+                cookieString: state.cookieString,
+              }
+            : undefined;
+          delete state.cookieString;
+          state.accounts = account ? [account] : [];
+          state.currentAccountId = account?.id || '';
+        }
+
+        return state;
+      },
     },
   ),
 );
+
+// 使用新的密钥重新写入账号信息
+vault.registerRewriter(async () => {
+  const { name, storage, partialize, version } =
+    useAppStateStore.persist.getOptions();
+  if (!name || !storage || !partialize) return;
+  await storage.setItem(name, {
+    state: partialize(useAppStateStore.getState()),
+    version,
+  });
+});
+
+export const selectCurrentAccount = (
+  state: AppStateStore,
+): TwitterAccount | undefined =>
+  state.accounts.find((item) => item.id === state.currentAccountId);
+
+export function getCurrentAccount(): TwitterAccount | undefined {
+  return selectCurrentAccount(useAppStateStore.getState());
+}
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DownloadHistoryRecord } from '../interfaces/DownloadHistoryRecord';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+
+export interface DownloadHistoryStore {
+  /**
+   * 以媒体 ID 为键的下载记录
+   */
+  records: Record<string, DownloadHistoryRecord>;
+  addRecord: (record: DownloadHistoryRecord) => void;
+  hasRecord: (mediaId?: string) => boolean;
+  clearRecords: () => void;
+}
+
+export const useDownloadHistoryStore = create(
+  persist<DownloadHistoryStore>(
+    (set, get) => ({
+      records: {},
+      addRecord: (record) => {
+        set({
+          records: {
+            ...get().records,
+            [record.mediaId]: record,
+          },
+        });
+      },
+      hasRecord: (mediaId) => {
+        if (!mediaId) return false;
+        return !!get().records[mediaId];
+      },
+      clearRecords: () => set({ records: {} }),
+    }),
+    {
+      name: 'download-history',
+      version: 1,
+      storage: createTauriFileStorage({
+        writeDelay: 1000,
+      }),
+    },
+  ),
+);
@@ -0,0 +1,93 @@
+import { nanoid } from 'nanoid';
+import * as R from 'ramda';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DownloadFilter } from '../interfaces/DownloadFilter';
+import { DownloadOutput } from '../interfaces/DownloadOutput';
+import { DownloadProfile } from '../interfaces/DownloadProfile';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+
+export interface DownloadProfileStore {
+  profiles: DownloadProfile[];
+  /**
+   * 以用户 ID 为键的默认下载方案 ID，加载该用户时自动使用
+   */
+  userDefaults: Record<string, string>;
+  addProfile: (
+    name: string,
+    filter: DownloadFilter,
+    output: DownloadOutput,
+  ) => DownloadProfile;
+  updateProfile: (
+    id: string,
+    patch: Partial<Pick<DownloadProfile, 'name' | 'filter' | 'output'>>,
+  ) => void;
+  removeProfile: (id: string) => void;
+  /**
+   * profileId 为空时取消该用户的默认方案
+   */
+  setUserDefault: (userId: string, profileId?: string) => void;
+  getUserDefault: (userId: string) => DownloadProfile | undefined;
+}
+
+const omitDateRange = (filter: DownloadFilter): DownloadFilter =>
+  R.omit(['dateRange'], filter);
+
+export const useDownloadProfileStore = create(
+  persist<DownloadProfileStore>(
+    (set, get) => ({
+      profiles: [],
+      userDefaults: {},
+      addProfile: (name, filter, output) => {
+        const profile: DownloadProfile = {
+          id: nanoid(),
+          name,
+          filter: omitDateRange(filter),
+          output,
+          createdAt: Date.now(),
+        };
+        set({ profiles: get().profiles.concat(profile) });
+        return profile;
+      },
+      updateProfile: (id, patch) => {
+        set({
+          profiles: get().profiles.map((profile) =>
+            profile.id === id
+              ? {
+                  ...profile,
+                  ...patch,
+                  filter: omitDateRange(patch.filter || profile.filter),
+                }
+              : profile,
+          ),
+        });
+      },
+      removeProfile: (id) => {
+        set({
+          profiles: get().profiles.filter((profile) => profile.id !== id),
+          userDefaults: R.reject(R.equals(id), get().userDefaults),
+        });
+      },
+      setUserDefault: (userId, profileId) => {
+        set({
+          userDefaults: profileId
+            ? { ...get().userDefaults, [userId]: profileId }
+            : R.dissoc(userId, get().userDefaults),
+        });
+      },
+      getUserDefault: (userId) =>
+        selectProfile(get(), get().userDefaults[userId]),
+    }),
+    {
+      name: 'download-profiles',
+      version: 1,
+      storage: createTauriFileStorage(),
+    },
+  ),
+);
+
+export const selectProfile = (
+  state: DownloadProfileStore,
+  id: string | undefined,
+): DownloadProfile | undefined =>
+  id ? state.profiles.find((item) => item.id === id) : undefined;
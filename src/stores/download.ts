@@ -2,20 +2,68 @@ import { fs, notification, path } from '@tauri-apps/api';
 import { nanoid } from 'nanoid';
 import * as R from 'ramda';
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { CreationTask } from '../interfaces/CreationTask';
 import { DownloadFilter } from '../interfaces/DownloadFilter';
 import { DownloadTask } from '../interfaces/DownloadTask';
 import { TwitterMedia } from '../interfaces/TwitterMedia';
 import { TwitterPost } from '../interfaces/TwitterPost';
 import { TwitterUser } from '../interfaces/TwitterUser';
-import { AriaStatus, aria2 } from '../utils/aria2';
-import { getUserMedias, getUserTweets } from '../twitter/api';
+import { TwitterList } from '../interfaces/TwitterList';
+import { ThreadPosition } from '../interfaces/ThreadPosition';
+import { ConflictPolicy, DownloadOutput } from '../interfaces/DownloadOutput';
+import { VideoVariantPolicy } from '../interfaces/VideoVariantPolicy';
+import { PhotoPolicy } from '../interfaces/PhotoPolicy';
+import MediaType from '../enums/MediaType';
+import { AriaStatus, AriaTask, aria2 } from '../utils/aria2';
+import { hlsDownloader } from '../utils/hls';
+import { EventEmitter } from '../utils/event';
+import {
+  TimelinePage,
+  getBookmarks,
+  getLikes,
+  getListTweets,
+  getSearchTimeline,
+  getUserMedias,
+  getUserTweets,
+  getThreadPosts,
+  getUserTweetsAndReplies,
+} from '../twitter/api';
 import { useSettingsStore } from './settings';
-import { getDownloadUrl } from '../twitter/utils';
+import {
+  compareTwitterId,
+  getDownloadUrl,
+  getMediaVariant,
+  getPhotoDownloadUrls,
+  getMediaOrigin,
+  getPhotoFormat,
+  getPostMedias,
+  isHlsVariant,
+  reviveTwitterPost,
+} from '../twitter/utils';
 import { resolveVariables } from '../utils/file-name-template';
 import { FileNameTemplateData } from '../interfaces/FileNameTemplateData';
 import dayjs from 'dayjs';
 import { notification as antNotification } from 'antd';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+import { useDownloadHistoryStore } from './download-history';
+import { selectSyncState, useUserSyncStore } from './user-sync';
+import { RateLimitError } from '../errors/RateLimitError';
+import { ResponseError } from '../errors/ResponseError';
+import { TwitterAccount } from '../interfaces/TwitterAccount';
+import { useAppStateStore } from './app-state';
+import { useRateLimitStore } from './rate-limit';
+import { useSessionStore } from './session';
+import { SessionExpiredError } from '../errors/SessionExpiredError';
+import { abortableDelay } from '../utils';
+import { downloadProfileImages } from '../utils/profile-images';
+import {
+  getMediaSkipReason,
+  getPostSkipReason,
+} from '../utils/download-filter';
+import { compileFilterExpression } from '../utils/filter-expression';
+import { SkipReason, SkipReasonCounts } from '../interfaces/SkipReason';
+import { USER_TIMELINE_SOURCES } from '../constants/user-sync';
 
 let _log: ICategoriedLogger;
 
@@ -25,9 +73,37 @@ function log() {
   return _log;
 }
 
+export interface CreateCreationTaskOptions {
+  subscriptionId?: string;
+  list?: TwitterList;
+  accountId?: string;
+  output?: DownloadOutput;
+}
+
+export interface CreationTaskFinishedEvent {
+  task: CreationTask;
+  aborted: boolean;
+  error?: string;
+}
+
+/**
+ * 创建任务运行结束（完成、取消或失败）时触发
+ */
+export const onCreationTaskFinished =
+  new EventEmitter<CreationTaskFinishedEvent>();
+
 export interface CreateDownloadTaskParams {
   post: TwitterPost;
   media: TwitterMedia;
+  thread?: ThreadPosition;
+  /**
+   * 下载方案的保存方式，为空时使用全局设置
+   */
+  output?: DownloadOutput;
+  /**
+   * 不检查下载历史，用于重新下载与失败重试
+   */
+  ignoreHistory?: boolean;
 }
 
 async function mergeAriaStatusToDownloadTask(
@@ -48,26 +124,75 @@ async function mergeAriaStatusToDownloadTask(
   };
 }
 
+function getVideoVariantPolicy(): VideoVariantPolicy {
+  const { download } = useSettingsStore.getState();
+  return {
+    type: download.videoVariantPolicy,
+    maxResolution: download.videoMaxResolution,
+    contentType: download.videoContentType,
+  };
+}
+
+/**
+ * 生成下载任务，开启跳过已下载的媒体时，下载历史中的媒体返回 null
+ */
+async function prepareDownloadTask(
+  params: CreateDownloadTaskParams & { ignoreHistory: true },
+): Promise<DownloadTask>;
+async function prepareDownloadTask(
+  params: CreateDownloadTaskParams,
+): Promise<DownloadTask | null>;
 async function prepareDownloadTask({
   post,
   media,
-}: CreateDownloadTaskParams): Promise<DownloadTask> {
+  thread,
+  output,
+  ignoreHistory,
+}: CreateDownloadTaskParams): Promise<DownloadTask | null> {
   const settings = useSettingsStore.getState();
-  const downloadUrl = getDownloadUrl(media);
+  if (
+    !ignoreHistory &&
+    settings.download.downloadedSkip &&
+    useDownloadHistoryStore.getState().hasRecord(media.id)
+  ) {
+    log().info('Skip because downloadedSkip', media);
+    return null;
+  }
+  const variantPolicy = getVideoVariantPolicy();
+  const photoPolicy: PhotoPolicy = {
+    size: settings.download.photoSize,
+    format: settings.download.photoFormat,
+  };
+  const isPhoto = media.type === MediaType.Photo;
+  const variant = getMediaVariant(media, variantPolicy);
+  const isHls = !!variant && isHlsVariant(variant);
+  const [downloadUrl, ...fallbackUrls] = isPhoto
+    ? getPhotoDownloadUrls(media, photoPolicy)
+    : [getDownloadUrl(media, variantPolicy)];
   log().info('downloadUrl', downloadUrl);
   const templateData: FileNameTemplateData = {
     media,
     post,
+    origin: getMediaOrigin(post, media),
+    thread,
+    variant,
+    // HLS 的分片会合并为 MP4，TS 分片的视频下载时再改为 .ts
+    format: isPhoto
+      ? getPhotoFormat(media, photoPolicy)
+      : isHls
+        ? 'mp4'
+        : undefined,
   };
-  const resolvedDirName = settings.download.dirTemplate
-    ? resolveVariables(settings.download.dirTemplate, templateData)
+  const dirTemplate = output?.dirTemplate ?? settings.download.dirTemplate;
+  const resolvedDirName = dirTemplate
+    ? resolveVariables(dirTemplate, templateData)
     : '';
   log().info('resolved dirName', resolvedDirName);
   const dir = await path.join(settings.download.saveDirBase, resolvedDirName);
   log().info('resolved dir', dir);
 
   const fileName = resolveVariables(
-    settings.download.fileNameTemplate,
+    output?.fileNameTemplate || settings.download.fileNameTemplate,
     templateData,
   );
 
@@ -85,12 +210,76 @@ async function prepareDownloadTask({
     dir,
     updatedAt: Date.now(),
     downloadUrl,
+    fallbackUrls,
     ariaRetryCountRemains: 5,
+    downloader: isHls ? 'hls' : 'aria2',
+    thread,
+    output,
   };
 
   return task;
 }
 
+/**
+ * 把任务交给对应的下载器，返回新的 gid
+ */
+async function addDownload(
+  task: DownloadTask,
+  url = task.downloadUrl,
+  paused = false,
+): Promise<string> {
+  if (task.downloader === 'hls') {
+    return hlsDownloader.add(url, {
+      dir: task.dir,
+      out: task.fileName,
+      policy: getVideoVariantPolicy(),
+      paused,
+      // 与 Aria2 一致，未设置覆盖时自动重命名
+      overwrite: task.output?.conflictPolicy === 'overwrite',
+    });
+  }
+
+  return aria2.invoke('aria2.addUri', [url], getAriaOptions(task, paused));
+}
+
+/**
+ * Aria2 默认自动重命名同名文件，方案设置为覆盖时允许覆盖
+ */
+function getAriaOptions(task: DownloadTask, paused = false) {
+  return {
+    dir: task.dir,
+    out: task.fileName,
+    ...(task.output?.conflictPolicy === 'overwrite'
+      ? { 'allow-overwrite': 'true', 'auto-file-renaming': 'false' }
+      : {}),
+    ...(paused ? { pause: 'true' } : {}),
+  };
+}
+
+async function tellDownloadStatus(gid: string): Promise<AriaTask> {
+  return hlsDownloader.has(gid)
+    ? hlsDownloader.tellStatus(gid)
+    : aria2.tellStatus(gid);
+}
+
+function reviveDownloadTask(task: any): DownloadTask {
+  return {
+    ...task,
+    post: reviveTwitterPost(task.post),
+  };
+}
+
+const UNFINISHED_STATUSES = [
+  AriaStatus.Waiting,
+  AriaStatus.Active,
+  AriaStatus.Paused,
+];
+
+/**
+ * Aria2 的错误码，3 表示资源不存在（如 404）
+ */
+const ARIA_NOT_FOUND_ERROR_CODE = '3';
+
 const creationTaskAbortControllerMap = new Map<string, AbortController>();
 
 export interface DownloadStore {
@@ -100,10 +289,16 @@ export interface DownloadStore {
   downloadTasks: DownloadTask[];
   autoSyncTaskIds: string[];
   setAutoSyncTaskIds: (ids: string[]) => void;
-  createDownloadTask: (params: CreateDownloadTaskParams) => Promise<void>;
+  /**
+   * 创建下载任务，媒体在下载历史中被跳过时返回 false
+   */
+  createDownloadTask: (params: CreateDownloadTaskParams) => Promise<boolean>;
+  /**
+   * 批量创建下载任务，返回创建的任务数（不含下载历史中被跳过的媒体）
+   */
   batchCreateDownloadTask: (
     paramsList: CreateDownloadTaskParams[],
-  ) => Promise<void>;
+  ) => Promise<number>;
   pauseDownloadTask: (gid: string) => Promise<void>;
   pauseAllDownloadTask: () => Promise<void>;
   unpauseDownloadTask: (gid: string) => Promise<void>;
@@ -115,336 +310,745 @@ export interface DownloadStore {
   batchUpdateDownloadTasks: (tasks: DownloadTask[]) => void;
   redownloadTask: (gid: string) => Promise<void>;
   batchRedownloadTask: (gid: string[]) => Promise<void>;
+  restoreDownloadTasks: () => Promise<void>;
+  /**
+   * 下载推文所在回复串中作者自己的全部推文的媒体，返回创建的任务数（不含下载历史中被跳过的媒体）
+   */
+  downloadThread: (
+    post: TwitterPost,
+    output?: DownloadOutput,
+  ) => Promise<number>;
 
   creationTasks: CreationTask[];
-  createCreationTask: (user: TwitterUser, filter: DownloadFilter) => void;
+  createCreationTask: (
+    user: TwitterUser | undefined,
+    filter: DownloadFilter,
+    options?: CreateCreationTaskOptions,
+  ) => void;
   removeCreationTask: (id: string) => void;
   updateCreationTask: (task: CreationTask) => void;
 }
 
-export const useDownloadStore = create<DownloadStore>((set, get) => ({
-  currentTab: '',
-  setCurrentTab: (tab) => set({ currentTab: tab }),
+type PersistedDownloadState = Pick<DownloadStore, 'downloadTasks'>;
 
-  autoSyncTaskIds: [],
-  setAutoSyncTaskIds: (ids) => set({ autoSyncTaskIds: ids }),
+export const useDownloadStore = create(
+  persist<DownloadStore, [], [], PersistedDownloadState>(
+    (set, get) => ({
+      currentTab: '',
+      setCurrentTab: (tab) => set({ currentTab: tab }),
 
-  downloadTasks: [],
-  createDownloadTask: async (params) => {
-    const task = await prepareDownloadTask(params);
+      autoSyncTaskIds: [],
+      setAutoSyncTaskIds: (ids) => set({ autoSyncTaskIds: ids }),
 
-    const gid = await aria2.invoke('aria2.addUri', [task.downloadUrl], {
-      dir: task.dir,
-      out: task.fileName,
-    });
-    task.gid = gid;
+      downloadTasks: [],
+      createDownloadTask: async (params) => {
+        const task = await prepareDownloadTask(params);
+        if (!task) return false;
 
-    const status = await aria2.tellStatus(task.gid);
-    task.status = status.status;
+        task.gid = await addDownload(task);
 
-    set({
-      downloadTasks: get().downloadTasks.concat(task),
-    });
-  },
-  updateDownloadTask: (task, now = Date.now()) => {
-    const oldTasks = get().downloadTasks;
-    const oldTaskIndex = get().downloadTasks.findIndex(
-      (t) => t.gid === task.gid,
-    );
-    if (oldTaskIndex === -1) return;
-    const oldTask = oldTasks[oldTaskIndex];
-    if (oldTask.updatedAt > now) return;
-    const newTasks = R.adjust(oldTaskIndex, R.always(task))(oldTasks);
-    set({
-      downloadTasks: newTasks,
-    });
-  },
-  batchUpdateDownloadTasks: (tasks) => {
-    const { downloadTasks: oldTasks } = get();
-    const newTaskMap = R.pipe<
-      [DownloadTask[]],
-      [DownloadTask['gid'], DownloadTask][],
-      Record<string, DownloadTask>
-    >(
-      R.map((t: DownloadTask) => [t.gid, t]),
-      R.fromPairs,
-    )(tasks);
-
-    const newTasks = oldTasks.map((oldTask) => {
-      const newTask = newTaskMap[oldTask.gid];
-      if (!newTask) return oldTask;
-      if (newTask.updatedAt < oldTask.updatedAt) {
-        return oldTask;
-      }
-      return newTask;
-    });
+        const status = await tellDownloadStatus(task.gid);
+        task.status = status.status;
 
-    set({
-      downloadTasks: newTasks,
-    });
-  },
-  batchCreateDownloadTask: async (paramsList) => {
-    const tasks: DownloadTask[] = [];
+        set({
+          downloadTasks: get().downloadTasks.concat(task),
+        });
+        return true;
+      },
+      updateDownloadTask: (task, now = Date.now()) => {
+        const oldTasks = get().downloadTasks;
+        const oldTaskIndex = get().downloadTasks.findIndex(
+          (t) => t.gid === task.gid,
+        );
+        if (oldTaskIndex === -1) return;
+        const oldTask = oldTasks[oldTaskIndex];
+        if (oldTask.updatedAt > now) return;
+        const newTasks = R.adjust(oldTaskIndex, R.always(task))(oldTasks);
+        set({
+          downloadTasks: newTasks,
+        });
+      },
+      batchUpdateDownloadTasks: (tasks) => {
+        const { downloadTasks: oldTasks } = get();
+        const newTaskMap = R.pipe<
+          [DownloadTask[]],
+          [DownloadTask['gid'], DownloadTask][],
+          Record<string, DownloadTask>
+        >(
+          R.map((t: DownloadTask) => [t.gid, t]),
+          R.fromPairs,
+        )(tasks);
+
+        const newTasks = oldTasks.map((oldTask) => {
+          const newTask = newTaskMap[oldTask.gid];
+          if (!newTask) return oldTask;
+          if (newTask.updatedAt < oldTask.updatedAt) {
+            return oldTask;
+          }
+          return newTask;
+        });
 
-    for (const params of paramsList) {
-      const task = await prepareDownloadTask(params);
-      tasks.push(task);
-    }
+        set({
+          downloadTasks: newTasks,
+        });
+      },
+      batchCreateDownloadTask: async (paramsList) => {
+        const tasks: DownloadTask[] = [];
 
-    if (tasks.length === 0) {
-      return;
-    }
+        for (const params of paramsList) {
+          const task = await prepareDownloadTask(params);
+          if (task) tasks.push(task);
+        }
 
-    const gids: string[] = (
-      await aria2.batchInvoke(
-        tasks.map((task) => ({
-          methodName: 'aria2.addUri',
-          params: [
-            [task.downloadUrl],
-            {
-              dir: task.dir,
-              out: task.fileName,
-            },
-          ],
-        })),
-      )
-    ).flat();
+        if (tasks.length === 0) {
+          return 0;
+        }
 
-    const statusMap = await aria2.tellStatus(gids);
+        const [hlsTasks, ariaTasks] = R.partition(
+          (task: DownloadTask) => task.downloader === 'hls',
+          tasks,
+        );
 
-    tasks.forEach((task, index) => {
-      task.gid = gids[index];
-      task.status = statusMap[task.gid].status;
-    });
+        for (const task of hlsTasks) {
+          task.gid = await addDownload(task);
+          task.status = (await tellDownloadStatus(task.gid)).status;
+        }
 
-    const newTasks = get().downloadTasks.concat(tasks);
-    set({
-      downloadTasks: newTasks,
-    });
-  },
-  pauseDownloadTask: async (gid) => {
-    await aria2.invoke('aria2.pause', gid);
-  },
-  pauseAllDownloadTask: async () => {
-    await aria2.invoke('aria2.pauseAll');
-  },
-  unpauseDownloadTask: async (gid) => {
-    await aria2.invoke('aria2.unpause', gid);
-  },
-  unpauseAllDownloadTask: async () => {
-    await aria2.invoke('aria2.unpauseAll');
-  },
-  removeDownloadTask: async (gid) => {
-    aria2.invoke('aria2.remove', gid).catch((err) => {
-      log().warn('Remove aria2 task failed', { gid, err });
-    });
-    const state = get();
-    set({
-      downloadTasks: R.filter((v: DownloadTask) => v.gid !== gid)(
-        state.downloadTasks,
-      ),
-      autoSyncTaskIds: R.filter((v: string) => v !== gid)(
-        state.autoSyncTaskIds,
-      ),
-    });
-  },
-  batchRemoveDownloadTasks: async (gids) => {
-    aria2
-      .batchInvoke(
-        gids.map((gid) => ({
-          methodName: 'aria2.remove',
-          params: [gid],
-        })),
-      )
-      .catch((err) => {
-        log().error({ gids, err });
-      });
-    set({
-      downloadTasks: R.filter((v: DownloadTask) => !gids.includes(v.gid))(
-        get().downloadTasks,
-      ),
-    });
-  },
-  redownloadTask: async (gid) => {
-    const store = get();
-    const oldTask = store.downloadTasks.find((t) => t.gid === gid);
-    if (!oldTask) {
-      throw new Error('找不到旧的下载任务');
-    }
-    await store.removeDownloadTask(oldTask.gid);
-    await store.createDownloadTask({
-      post: oldTask.post,
-      media: oldTask.media,
-    });
-  },
-  batchRedownloadTask: async (gids) => {
-    const store = get();
-    const oldTasks = store.downloadTasks.filter((t) => gids.includes(t.gid));
-    if (oldTasks.length === 0) {
-      throw new Error('找不到旧的下载任务');
-    }
+        const gids: string[] = (
+          await aria2.batchInvoke(
+            ariaTasks.map((task) => ({
+              methodName: 'aria2.addUri',
+              params: [[task.downloadUrl], getAriaOptions(task)],
+            })),
+          )
+        ).flat();
 
-    await store.batchRemoveDownloadTasks(gids);
-    await store.batchCreateDownloadTask(
-      oldTasks.map((task) => ({
-        media: task.media,
-        post: task.post,
-      })),
-    );
-  },
-  syncDownloadTaskStatus: async (gid) => {
-    const { downloadTasks, updateDownloadTask, removeDownloadTask } = get();
-    const index = downloadTasks.findIndex((v) => v.gid === gid);
-    if (index === -1) {
-      return;
-    }
-    const task = downloadTasks[index];
-    const now = Date.now();
-    const status = await aria2.tellStatus(gid);
-
-    if (status.status === 'error') {
-      if (task.ariaRetryCountRemains > 0) {
-        log().warn(
-          `Task download failed, retry it. RetryCountRemains: ${task.ariaRetryCountRemains}`,
-          task,
-        );
-        removeDownloadTask(task.gid);
+        const statusMap = await aria2.tellStatus(gids);
 
-        const newTask = await prepareDownloadTask({
-          post: task.post,
-          media: task.media,
+        ariaTasks.forEach((task, index) => {
+          task.gid = gids[index];
+          task.status = statusMap[task.gid].status;
         });
-        newTask.ariaRetryCountRemains = task.ariaRetryCountRemains - 1;
 
-        const gid = await aria2.invoke('aria2.addUri', [task.downloadUrl], {
-          dir: newTask.dir,
-          out: newTask.fileName,
+        const newTasks = get().downloadTasks.concat(tasks);
+        set({
+          downloadTasks: newTasks,
         });
-        newTask.gid = gid;
+        return tasks.length;
+      },
+      pauseDownloadTask: async (gid) => {
+        if (hlsDownloader.has(gid)) {
+          hlsDownloader.pause(gid);
+          return;
+        }
+        await aria2.invoke('aria2.pause', gid);
+      },
+      pauseAllDownloadTask: async () => {
+        hlsDownloader.pauseAll();
+        await aria2.invoke('aria2.pauseAll');
+      },
+      unpauseDownloadTask: async (gid) => {
+        if (hlsDownloader.has(gid)) {
+          hlsDownloader.unpause(gid);
+          return;
+        }
+        await aria2.invoke('aria2.unpause', gid);
+      },
+      unpauseAllDownloadTask: async () => {
+        hlsDownloader.unpauseAll();
+        await aria2.invoke('aria2.unpauseAll');
+      },
+      removeDownloadTask: async (gid) => {
+        if (hlsDownloader.has(gid)) {
+          hlsDownloader.remove(gid);
+        } else {
+          aria2.invoke('aria2.remove', gid).catch((err) => {
+            log().warn('Remove aria2 task failed', { gid, err });
+          });
+        }
+        const state = get();
+        set({
+          downloadTasks: R.filter((v: DownloadTask) => v.gid !== gid)(
+            state.downloadTasks,
+          ),
+          autoSyncTaskIds: R.filter((v: string) => v !== gid)(
+            state.autoSyncTaskIds,
+          ),
+        });
+      },
+      batchRemoveDownloadTasks: async (gids) => {
+        const [hlsGids, ariaGids] = R.partition(
+          (gid: string) => hlsDownloader.has(gid),
+          gids,
+        );
+        hlsGids.forEach((gid) => hlsDownloader.remove(gid));
+        aria2
+          .batchInvoke(
+            ariaGids.map((gid) => ({
+              methodName: 'aria2.remove',
+              params: [gid],
+            })),
+          )
+          .catch((err) => {
+            log().error({ gids, err });
+          });
+        set({
+          downloadTasks: R.filter((v: DownloadTask) => !gids.includes(v.gid))(
+            get().downloadTasks,
+          ),
+        });
+      },
+      redownloadTask: async (gid) => {
+        const store = get();
+        const oldTask = store.downloadTasks.find((t) => t.gid === gid);
+        if (!oldTask) {
+          throw new Error('找不到旧的下载任务');
+        }
+        await store.removeDownloadTask(oldTask.gid);
+        await store.createDownloadTask({
+          post: oldTask.post,
+          media: oldTask.media,
+          thread: oldTask.thread,
+          output: oldTask.output,
+          ignoreHistory: true,
+        });
+      },
+      batchRedownloadTask: async (gids) => {
+        const store = get();
+        const oldTasks = store.downloadTasks.filter((t) =>
+          gids.includes(t.gid),
+        );
+        if (oldTasks.length === 0) {
+          throw new Error('找不到旧的下载任务');
+        }
+
+        await store.batchRemoveDownloadTasks(gids);
+        await store.batchCreateDownloadTask(
+          oldTasks.map((task) => ({
+            media: task.media,
+            post: task.post,
+            thread: task.thread,
+            output: task.output,
+            ignoreHistory: true,
+          })),
+        );
+      },
+      restoreDownloadTasks: async () => {
+        const unfinishedTasks = get().downloadTasks.filter((task) =>
+          UNFINISHED_STATUSES.includes(task.status),
+        );
+
+        if (unfinishedTasks.length === 0) {
+          return;
+        }
+
+        log().info(`Restore ${unfinishedTasks.length} unfinished tasks`);
+
+        const [hlsTasks, unfinishedAriaTasks] = R.partition(
+          (task: DownloadTask) => task.downloader === 'hls',
+          unfinishedTasks,
+        );
+
+        // Aria2 已从会话文件中恢复的任务保留原有的 gid
+        const sessionStatusMap = await aria2.tellStatus(
+          unfinishedAriaTasks.map((task) => task.gid),
+        );
+        const [restoredTasks, ariaTasks] = R.partition(
+          (task: DownloadTask) => !!sessionStatusMap[task.gid],
+          unfinishedAriaTasks,
+        );
+
+        // 会话中没有的任务需要重新注册。
+        // 目录与文件名保持不变，Aria2 会根据 .aria2 控制文件断点续传
+        const ariaGids: string[] = (
+          await aria2.batchInvoke(
+            ariaTasks.map((task) => ({
+              methodName: 'aria2.addUri',
+              params: [
+                [task.downloadUrl],
+                getAriaOptions(task, task.status === AriaStatus.Paused),
+              ],
+            })),
+          )
+        ).flat();
+
+        // HLS 任务没有断点信息，从头重新下载
+        const hlsGids: string[] = [];
+        for (const task of hlsTasks) {
+          hlsGids.push(
+            await addDownload(
+              task,
+              task.downloadUrl,
+              task.status === AriaStatus.Paused,
+            ),
+          );
+        }
+
+        const statusMap = {
+          ...sessionStatusMap,
+          ...(await aria2.tellStatus(ariaGids)),
+        };
+        for (const gid of hlsGids) {
+          statusMap[gid] = await hlsDownloader.tellStatus(gid);
+        }
+        const gids = ariaGids.concat(hlsGids);
+        const gidMap = new Map(
+          ariaTasks
+            .concat(hlsTasks)
+            .map((task, index) => [task.gid, gids[index]]),
+        );
+        restoredTasks.forEach((task) => gidMap.set(task.gid, task.gid));
+        const now = Date.now();
 
-        const status = await aria2.tellStatus(task.gid);
-        newTask.status = status.status;
+        set({
+          downloadTasks: get().downloadTasks.map((task) => {
+            const gid = gidMap.get(task.gid);
+            if (!gid) return task;
+            return {
+              ...task,
+              gid,
+              status: statusMap[gid].status,
+              updatedAt: now,
+            };
+          }),
+        });
+      },
+      downloadThread: async (post, output) => {
+        // 转推时下载原推文所在的回复串
+        const target = post.retweetedPost || post;
+        const threadId = target.conversationId || target.id;
+        const threadPosts = await getThreadPosts(threadId, target.user.id);
+        // 接口未返回时（如推文已删除）至少下载该推文本身
+        const posts = threadPosts.length > 0 ? threadPosts : [target];
+
+        const paramsList = posts.flatMap((item, index) =>
+          getPostMedias(item).map((media) => ({
+            post: item,
+            media,
+            thread: { id: threadId, index: index + 1 },
+            output,
+          })),
+        );
+        return await get().batchCreateDownloadTask(paramsList);
+      },
+      syncDownloadTaskStatus: async (gid) => {
+        const { downloadTasks, updateDownloadTask, removeDownloadTask } = get();
+        const index = downloadTasks.findIndex((v) => v.gid === gid);
+        if (index === -1) {
+          return;
+        }
+        const task = downloadTasks[index];
+        const now = Date.now();
+        const status = await tellDownloadStatus(gid);
+
+        if (status.status === 'error') {
+          const [fallbackUrl, ...restFallbackUrls] = task.fallbackUrls || [];
+          if (status.errorCode === ARIA_NOT_FOUND_ERROR_CODE && fallbackUrl) {
+            log().warn(`Download url not found, fall back to ${fallbackUrl}`);
+            removeDownloadTask(task.gid);
+
+            // 只是换用备选链接，文件名与扩展名保持不变
+            const gid = await addDownload(task, fallbackUrl);
+            const status = await tellDownloadStatus(gid);
+
+            set({
+              downloadTasks: get().downloadTasks.concat({
+                ...task,
+                gid,
+                status: status.status,
+                error: '',
+                downloadUrl: fallbackUrl,
+                fallbackUrls: restFallbackUrls,
+                updatedAt: now,
+              }),
+            });
+          } else if (task.ariaRetryCountRemains > 0) {
+            log().warn(
+              `Task download failed, retry it. RetryCountRemains: ${task.ariaRetryCountRemains}`,
+              task,
+            );
+            removeDownloadTask(task.gid);
+
+            const newTask = await prepareDownloadTask({
+              post: task.post,
+              media: task.media,
+              thread: task.thread,
+              output: task.output,
+              ignoreHistory: true,
+            });
+            newTask.ariaRetryCountRemains = task.ariaRetryCountRemains - 1;
+            newTask.downloadUrl = task.downloadUrl;
+            newTask.fallbackUrls = task.fallbackUrls;
+            newTask.downloader = task.downloader;
+
+            newTask.gid = await addDownload(newTask);
+
+            const status = await tellDownloadStatus(newTask.gid);
+            newTask.status = status.status;
+
+            set({
+              downloadTasks: get().downloadTasks.concat(newTask),
+            });
+          } else {
+            const newTask = await mergeAriaStatusToDownloadTask(status, task);
+            const msg = '任务下载失败';
+            const desc = `${newTask.fileName}\n${newTask.error || '未知原因'}`;
+            log().error('Task download failed', newTask);
+            antNotification.error({
+              message: msg,
+              description: desc,
+            });
+            notification.sendNotification({
+              title: msg,
+              body: desc,
+            });
+          }
+        } else {
+          const newTask = await mergeAriaStatusToDownloadTask(status, task);
+          updateDownloadTask(newTask, now);
+
+          if (newTask.status === AriaStatus.Complete && newTask.media.id) {
+            useDownloadHistoryStore.getState().addRecord({
+              mediaId: newTask.media.id,
+              postId: newTask.post.id,
+              userId: newTask.post.user?.id,
+              path: await path.join(newTask.dir, newTask.fileName),
+              completedAt: now,
+            });
+          }
+        }
+      },
 
+      creationTasks: [],
+      createCreationTask: (user, filter, options = {}) => {
+        const id = nanoid();
+        const abortController = new AbortController();
+        creationTaskAbortControllerMap.set(id, abortController);
         set({
-          downloadTasks: get().downloadTasks.concat(newTask),
+          creationTasks: [
+            ...get().creationTasks,
+            {
+              id,
+              user,
+              filter,
+              status: 'waiting',
+              completeCount: 0,
+              skipCount: 0,
+              subscriptionId: options.subscriptionId,
+              list: options.list,
+              accountId: options.accountId,
+              output: options.output,
+            },
+          ],
         });
-      } else {
-        const newTask = await mergeAriaStatusToDownloadTask(status, task);
-        const msg = '任务下载失败';
-        const desc = `${newTask.fileName}\n${newTask.error || '未知原因'}`;
-        log().error('Task download failed', newTask);
-        antNotification.error({
-          message: msg,
-          description: desc,
+      },
+      removeCreationTask: (id) => {
+        const abortController = creationTaskAbortControllerMap.get(id);
+        if (!abortController) {
+          return;
+        }
+        abortController.abort();
+        creationTaskAbortControllerMap.delete(id);
+        set({
+          creationTasks: get().creationTasks.filter((v) => v.id !== id),
         });
-        notification.sendNotification({
-          title: msg,
-          body: desc,
+      },
+      updateCreationTask: (task) => {
+        set({
+          creationTasks: get().creationTasks.map((oldTask) => {
+            if (oldTask.id === task.id) return task;
+            return oldTask;
+          }),
         });
-      }
-    } else {
-      const newTask = await mergeAriaStatusToDownloadTask(status, task);
-      updateDownloadTask(newTask, now);
-    }
-  },
-
-  creationTasks: [],
-  createCreationTask: (user, filter) => {
-    const id = nanoid();
-    const abortController = new AbortController();
-    creationTaskAbortControllerMap.set(id, abortController);
-    set({
-      creationTasks: [
-        ...get().creationTasks,
-        {
-          id,
-          user,
-          filter,
-          status: 'waiting',
-          completeCount: 0,
-          skipCount: 0,
-        },
-      ],
-    });
-  },
-  removeCreationTask: (id) => {
-    const abortController = creationTaskAbortControllerMap.get(id);
-    if (!abortController) {
-      return;
-    }
-    abortController.abort();
-    creationTaskAbortControllerMap.delete(id);
-    set({
-      creationTasks: get().creationTasks.filter((v) => v.id !== id),
-    });
-  },
-  updateCreationTask: (task) => {
-    set({
-      creationTasks: get().creationTasks.map((oldTask) => {
-        if (oldTask.id === task.id) return task;
-        return oldTask;
+      },
+    }),
+    {
+      name: 'download-tasks',
+      version: 1,
+      storage: createTauriFileStorage({
+        writeDelay: 1000,
       }),
-    });
-  },
-}));
+      // 由启动流程在 Aria2 就绪后手动恢复
+      skipHydration: true,
+      partialize: (state) => ({
+        downloadTasks: state.downloadTasks,
+      }),
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        downloadTasks: R.defaultTo(
+          [],
+          (persistedState as PersistedDownloadState | undefined)?.downloadTasks,
+        ).map(reviveDownloadTask),
+      }),
+    },
+  ),
+);
+
+/**
+ * 这些下载源按收藏时间而非发布时间排序，不能根据发布日期提前停止翻页
+ */
+const UNORDERED_SOURCES: DownloadFilter['source'][] = ['likes', 'bookmarks'];
+
+function buildSearchQuery(filter: DownloadFilter): string {
+  const query = R.defaultTo('', filter.searchQuery).trim();
+  if (!filter.dateRange) return query;
+
+  // 交给服务端按日期筛选，until 不包含当天，需要往后推一天
+  const [since, until] = filter.dateRange;
+  return [
+    query,
+    `since:${since.format('YYYY-MM-DD')}`,
+    `until:${until.add(1, 'day').format('YYYY-MM-DD')}`,
+  ].join(' ');
+}
+
+function createTimelineFetcher(
+  task: CreationTask,
+): (cursor?: string, account?: TwitterAccount) => Promise<TimelinePage> {
+  const { filter, user } = task;
+
+  if (filter.source === 'search') {
+    if (!filter.searchQuery?.trim()) throw new Error('搜索语句不能为空');
+    const query = buildSearchQuery(filter);
+    return (cursor, account) =>
+      getSearchTimeline(query, filter.searchProduct || 'Latest', cursor, {
+        account,
+      });
+  }
+
+  if (filter.source === 'list') {
+    const { listId } = filter;
+    if (!listId) throw new Error('未指定列表');
+    return (cursor, account) => getListTweets(listId, cursor, { account });
+  }
+
+  if (filter.source === 'bookmarks') {
+    return (cursor, account) => getBookmarks(cursor, { account });
+  }
+
+  if (!user) throw new Error('未指定用户');
+
+  if (filter.source === 'likes') {
+    return (cursor, account) => getLikes(user.id, cursor, { account });
+  }
+
+  const getListFn = R.cond([
+    [R.equals('medias'), R.always(getUserMedias)],
+    [R.equals('replies'), R.always(getUserTweetsAndReplies)],
+    [R.T, R.always(getUserTweets)],
+  ])(filter.source);
+  return (cursor, account) => getListFn(user.id, cursor, { account });
+}
+
+/**
+ * 选择创建任务使用的账号。固定账号时始终使用该账号，
+ * 否则从当前账号开始，遇到限流或账号失效时轮换到其他可用账号
+ */
+function createAccountPicker(pinnedAccountId?: string) {
+  const invalidAccountIds = new Set<string>();
+  let currentId =
+    pinnedAccountId || useAppStateStore.getState().currentAccountId;
+
+  const getAccounts = () => useAppStateStore.getState().accounts;
+
+  return {
+    current: (): TwitterAccount | undefined => {
+      const account = getAccounts().find((item) => item.id === currentId);
+      if (pinnedAccountId && !account) throw new Error('指定的账号已被移除');
+      return account;
+    },
+    /**
+     * 切换到下一个可用账号，没有可用账号时返回 false
+     */
+    rotate: (err: RateLimitError | ResponseError): boolean => {
+      if (pinnedAccountId) return false;
+      if (err instanceof ResponseError) invalidAccountIds.add(currentId);
+
+      const rateLimit = useRateLimitStore.getState();
+      const next = getAccounts().find(
+        (item) =>
+          item.id !== currentId &&
+          !invalidAccountIds.has(item.id) &&
+          !useSessionStore.getState().isSessionExpired(item) &&
+          !(
+            err instanceof RateLimitError &&
+            rateLimit.getLimitedUntil(item.id, err.operationName)
+          ),
+      );
+      if (!next) return false;
+
+      log().info('Rotate account', currentId, '->', next.id);
+      currentId = next.id;
+      return true;
+    },
+  };
+}
+
+const isUnauthorizedError = (err: any): err is ResponseError =>
+  err instanceof ResponseError && (err.status === 401 || err.status === 403);
 
 async function runCreationTask(task: CreationTask, abortSignal: AbortSignal) {
   log().info('Run creation task', task);
-  const { filter, user } = task;
+  const { filter, user, output } = task;
 
   const { batchCreateDownloadTask, updateCreationTask } =
     useDownloadStore.getState();
   const settings = useSettingsStore.getState();
+  const conflictPolicy: ConflictPolicy =
+    output?.conflictPolicy ||
+    (settings.download.sameFileSkip ? 'skip' : 'rename');
 
   let completeCount = 0;
   let skipCount = 0;
+  let skipReasons: SkipReasonCounts = {};
+  const countSkip = (reason: SkipReason, count = 1) => {
+    if (count <= 0) return;
+    skipCount += count;
+    skipReasons = {
+      ...skipReasons,
+      [reason]: (skipReasons[reason] || 0) + count,
+    };
+  };
 
   let now = dayjs();
   const since = filter.dateRange?.[0] || dayjs.unix(0);
   const until = filter.dateRange?.[1] || now.clone();
   let nextCursor: string | undefined | null = undefined;
 
-  const getListFn = filter.source === 'medias' ? getUserMedias : getUserTweets;
-
-  const getMediaCounts = R.reduce((acc: number, elem: TwitterPost) => {
-    return acc + (elem.medias?.length || 0);
-  }, 0);
+  const syncUser =
+    user && USER_TIMELINE_SOURCES.includes(filter.source) ? user : undefined;
+  const lastSyncState = syncUser
+    ? selectSyncState(useUserSyncStore.getState(), syncUser.id, filter.source)
+    : undefined;
+  const stopPostId = filter.onlyNew ? lastSyncState?.lastPostId : undefined;
+  let newestPost: TwitterPost | undefined;
+
+  const fetchTimeline = createTimelineFetcher(task);
+  const accountPicker = createAccountPicker(task.accountId);
+  const orderedByTime = !UNORDERED_SOURCES.includes(filter.source);
+
+  if (syncUser && filter.includeProfileImages) {
+    const result = await downloadProfileImages(syncUser, output);
+    completeCount += result.completeCount;
+    countSkip('profileImageUnchanged', result.skipCount);
+    updateCreationTask({ ...task, completeCount, skipCount, skipReasons });
+  }
 
-  while (nextCursor !== null && now.isAfter(since)) {
+  const includeQuotes = !!filter.includeQuotes;
+  const selfRepliesOnly =
+    filter.source === 'replies' && !!filter.selfRepliesOnly && !!syncUser;
+  // 自己的推文，或回复自己推文的回复
+  const isSelfPost = (post: TwitterPost) =>
+    post.user?.id === syncUser?.id &&
+    (!post.inReplyToUserId || post.inReplyToUserId === syncUser?.id);
+  // 未设置时保持旧版行为：帖子下载源不包含转推，其他下载源包含
+  const includeRetweets = filter.includeRetweets ?? filter.source !== 'tweets';
+  // 与本次任务相关的过滤条件，先于下载配置中的通用过滤条件判断
+  const postChecks: [SkipReason, (post: TwitterPost) => boolean][] = [
+    ['retweet', (post) => includeRetweets || !post.retweetedPost],
+    ['otherReplies', (post) => !selfRepliesOnly || isSelfPost(post)],
+    [
+      'dateRange',
+      (post) =>
+        !post.createdAt ||
+        (post.createdAt.isBefore(until) && post.createdAt.isAfter(since)),
+    ],
+    [
+      'synced',
+      (post) => !stopPostId || compareTwitterId(post.id, stopPostId) > 0,
+    ],
+  ];
+  const matchExpression = compileFilterExpression(filter.expression);
+  const getSkipReason = (post: TwitterPost) =>
+    postChecks.find(([, pass]) => !pass(post))?.[0] ||
+    getPostSkipReason(post, filter);
+
+  while (nextCursor !== null && (!orderedByTime || now.isAfter(since))) {
     if (abortSignal.aborted) {
       return;
     }
 
     log().info('CreationTask fetching', nextCursor);
-    const { twitterPosts, cursor } = await getListFn(user.id, nextCursor);
+    let page: TimelinePage;
+    try {
+      page = await fetchTimeline(nextCursor, accountPicker.current());
+    } catch (err: any) {
+      const account = accountPicker.current();
+      if (isUnauthorizedError(err) && account) {
+        useSessionStore.getState().markSessionExpired(account);
+      }
+      if (
+        (err instanceof RateLimitError || isUnauthorizedError(err)) &&
+        accountPicker.rotate(err)
+      ) {
+        continue;
+      }
+      if (isUnauthorizedError(err)) throw new SessionExpiredError();
+      if (!(err instanceof RateLimitError)) throw err;
+      // 没有其他可用账号时暂停到限制解除，再重新请求当前页
+      log().warn('Rate limited, wait until', err.resetAt, err);
+      updateCreationTask({
+        ...task,
+        completeCount,
+        skipCount,
+        skipReasons,
+        rateLimitResetAt: err.resetAt,
+      });
+      await abortableDelay(err.resetAt - Date.now() + 1000, abortSignal);
+      updateCreationTask({
+        ...task,
+        completeCount,
+        skipCount,
+        skipReasons,
+        rateLimitResetAt: undefined,
+      });
+      continue;
+    }
     if (abortSignal.aborted) break;
+    const { twitterPosts, cursor } = page;
     nextCursor = cursor;
-    now = R.last(twitterPosts)?.createdAt || now;
+    // 回复时间线会夹带对话中其他人较早的推文，只根据用户自己的推文判断进度
+    const ownPosts = syncUser
+      ? twitterPosts.filter((post) => post.user?.id === syncUser.id)
+      : twitterPosts;
+    now = R.last(ownPosts)?.createdAt || now;
     log().info('Now', now.format('YYYY-MM-DD'), 'next cursor', nextCursor);
-    const filteredPosts = twitterPosts.filter(
-      R.allPass([
-        (post) => (post.medias ? post.medias.length >= 0 : false),
-        (post) => {
-          if (!post.createdAt) return true;
-          return until ? post.createdAt.isBefore(until) : true;
-        },
-        (post) => {
-          if (!post.createdAt) return true;
-          return since ? post.createdAt.isAfter(since) : true;
-        },
-      ]),
+
+    // 遇到上次已同步过的帖子，后面的都是旧帖子，无需继续翻页
+    if (
+      stopPostId &&
+      ownPosts.some((post) => compareTwitterId(post.id, stopPostId) <= 0)
+    ) {
+      log().info('Reached last synced post', stopPostId);
+      nextCursor = null;
+    }
+
+    const filteredPosts: TwitterPost[] = [];
+    for (const post of twitterPosts) {
+      const mediaCount = getPostMedias(post, includeQuotes).length;
+      if (mediaCount === 0) continue;
+      const reason = getSkipReason(post);
+      if (reason) {
+        countSkip(reason, mediaCount);
+      } else {
+        filteredPosts.push(post);
+      }
+    }
+
+    newestPost = filteredPosts.reduce<TwitterPost | undefined>(
+      (newest, post) =>
+        !newest || compareTwitterId(post.id, newest.id) > 0 ? post : newest,
+      newestPost,
     );
 
-    const filteredCount =
-      getMediaCounts(twitterPosts) - getMediaCounts(filteredPosts);
-    skipCount += filteredCount;
-    log().info('FilteredPosts', filteredPosts);
+    log().info('FilteredPosts', filteredPosts, 'skipReasons', skipReasons);
 
     if (filteredPosts.length === 0) {
       updateCreationTask({
         ...task,
         completeCount,
         skipCount,
+        skipReasons,
       });
       continue;
     }
@@ -452,29 +1056,37 @@ async function runCreationTask(task: CreationTask, abortSignal: AbortSignal) {
     const paramsList: CreateDownloadTaskParams[] = [];
 
     for (const post of filteredPosts) {
-      const filteredMedias = post.medias!.filter(
-        R.allPass([
-          (media) => {
-            if (!filter.mediaTypes) return false;
-            return filter.mediaTypes.includes(media.type);
-          },
-        ]),
+      const filteredMedias = getPostMedias(post, includeQuotes).filter(
+        (media) => {
+          const reason =
+            getMediaSkipReason(media, filter) ||
+            (matchExpression && !matchExpression({ post, media })
+              ? 'expression'
+              : undefined);
+          if (reason) countSkip(reason);
+          return !reason;
+        },
       );
 
       log().info('FilteredMedias', filteredMedias);
       for (const media of filteredMedias) {
-        const task = await prepareDownloadTask({ post, media });
+        const task = await prepareDownloadTask({ post, media, output });
+        if (!task) {
+          countSkip('downloaded');
+          continue;
+        }
         log().info('Prepared download task', task);
         const filePath = await path.join(task.dir, task.fileName);
         log().info('Resolved file path', filePath);
-        if (settings.download.sameFileSkip && (await fs.exists(filePath))) {
-          skipCount++;
+        if (conflictPolicy === 'skip' && (await fs.exists(filePath))) {
+          countSkip('sameFile');
           log().info('Skip because sameFileSkip', media);
           continue;
         }
         paramsList.push({
           media,
           post,
+          output,
         });
       }
     }
@@ -486,23 +1098,54 @@ async function runCreationTask(task: CreationTask, abortSignal: AbortSignal) {
         ...task,
         completeCount,
         skipCount,
+        skipReasons,
       });
       continue;
     }
 
-    await batchCreateDownloadTask(paramsList);
-    completeCount += paramsList.length;
+    completeCount += await batchCreateDownloadTask(paramsList);
     updateCreationTask({
       ...task,
       completeCount,
       skipCount,
+      skipReasons,
     });
 
     if (abortSignal.aborted) break;
   }
+
+  if (abortSignal.aborted || !syncUser) return;
+
+  const { updateSyncState } = useUserSyncStore.getState();
+  if (
+    newestPost &&
+    (!lastSyncState ||
+      compareTwitterId(newestPost.id, lastSyncState.lastPostId) > 0)
+  ) {
+    updateSyncState({
+      userId: syncUser.id,
+      source: filter.source,
+      lastPostId: newestPost.id,
+      lastPostTime: newestPost.createdAt?.valueOf(),
+      lastSyncTime: Date.now(),
+    });
+  } else if (lastSyncState) {
+    updateSyncState({
+      ...lastSyncState,
+      lastSyncTime: Date.now(),
+    });
+  }
 }
 
 // Schedules creation tasks
+const SESSION_EXPIRED_RETRY_DELAY = 5000;
+
+function resolveTaskAccount(task: CreationTask): TwitterAccount | undefined {
+  const { accounts, currentAccountId } = useAppStateStore.getState();
+  const accountId = task.accountId || currentAccountId;
+  return accounts.find((item) => item.id === accountId);
+}
+
 async function scheduleCreationTasks() {
   const { creationTasks, removeCreationTask, updateCreationTask } =
     useDownloadStore.getState();
@@ -531,17 +1174,47 @@ async function scheduleCreationTasks() {
     return;
   }
 
+  // 账号登录失效时暂停队列，重新登录后自动继续
+  const account = resolveTaskAccount(task);
+  if (account) {
+    const { isSessionExpired, checkSession } = useSessionStore.getState();
+    if (isSessionExpired(account) || (await checkSession(account))) {
+      setTimeout(scheduleCreationTasks, SESSION_EXPIRED_RETRY_DELAY);
+      return;
+    }
+  }
+
   task.status = 'active';
   updateCreationTask(task);
 
+  const getLatestTask = () =>
+    useDownloadStore.getState().creationTasks.find((t) => t.id === task.id) ||
+    task;
+
   try {
     await runCreationTask(task, abortController.signal);
     log().info('Completed creation task, remove it', task);
+    onCreationTaskFinished.emit({
+      task: getLatestTask(),
+      aborted: abortController.signal.aborted,
+    });
     removeCreationTask(task.id);
   } catch (err: any) {
+    if (err instanceof SessionExpiredError && !abortController.signal.aborted) {
+      // 保留任务，等待重新登录后重新运行
+      log().warn('Session expired, requeue creation task', task);
+      updateCreationTask({ ...getLatestTask(), status: 'waiting' });
+      requestIdleCallback(scheduleCreationTasks);
+      return;
+    }
     log().error('runCreationTaskError', err);
-    removeCreationTask(task.id);
     const reason = typeof err === 'string' ? err : err?.message || '未知原因';
+    onCreationTaskFinished.emit({
+      task: getLatestTask(),
+      aborted: abortController.signal.aborted,
+      error: reason,
+    });
+    removeCreationTask(task.id);
     notification.sendNotification({
       title: '爬虫任务运行失败',
       body: reason,
@@ -566,7 +1239,14 @@ async function scheduleAutoSyncTasks() {
   }
 
   const now = Date.now();
-  const resultMap = await aria2.tellStatus(ids);
+  const [hlsIds, ariaIds] = R.partition(
+    (id: string) => hlsDownloader.has(id),
+    ids,
+  );
+  const resultMap = await aria2.tellStatus(ariaIds);
+  for (const id of hlsIds) {
+    resultMap[id] = await hlsDownloader.tellStatus(id);
+  }
   const { downloadTasks, batchUpdateDownloadTasks } =
     useDownloadStore.getState();
   const newTasks = await Promise.all(
@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { GraphqlOperation } from '../interfaces/GraphqlOperation';
+import {
+  BUILT_IN_GRAPHQL_OPERATIONS,
+  GraphqlOperationName,
+  resolveGraphqlOperations,
+} from '../twitter/graphql';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+
+/**
+ * 两次刷新之间的最短间隔，避免接口持续报错时反复下载脚本
+ */
+const MIN_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+export interface GraphqlStore {
+  /**
+   * 从网页解析出的接口参数，缺失的接口使用内置值
+   */
+  operations: Partial<Record<GraphqlOperationName, GraphqlOperation>>;
+  updatedAt?: number;
+  getOperation: (name: GraphqlOperationName) => GraphqlOperation;
+  /**
+   * 重新解析接口参数，返回参数是否有更新
+   */
+  refreshOperations: () => Promise<boolean>;
+}
+
+let refreshingPromise: Promise<boolean> | null = null;
+
+type PersistedGraphqlState = Pick<GraphqlStore, 'operations' | 'updatedAt'>;
+
+export const useGraphqlStore = create(
+  persist<GraphqlStore, [], [], PersistedGraphqlState>(
+    (set, get) => ({
+      operations: {},
+      updatedAt: undefined,
+      getOperation: (name) =>
+        get().operations[name] || BUILT_IN_GRAPHQL_OPERATIONS[name],
+      refreshOperations: async () => {
+        if (refreshingPromise) return refreshingPromise;
+
+        const { updatedAt } = get();
+        if (updatedAt && Date.now() - updatedAt < MIN_REFRESH_INTERVAL) {
+          return false;
+        }
+
+        refreshingPromise = (async () => {
+          try {
+            const operations = await resolveGraphqlOperations();
+            log.info('Resolved graphql operations', operations);
+            set({ operations, updatedAt: Date.now() });
+            return true;
+          } catch (err: any) {
+            log.error('Resolve graphql operations failed', err);
+            return false;
+          } finally {
+            refreshingPromise = null;
+          }
+        })();
+
+        return refreshingPromise;
+      },
+    }),
+    {
+      name: 'graphql-operations',
+      version: 1,
+      storage: createTauriFileStorage(),
+      partialize: (state) => ({
+        operations: state.operations,
+        updatedAt: state.updatedAt,
+      }),
+    },
+  ),
+);
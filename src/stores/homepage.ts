@@ -1,10 +1,18 @@
 import { create } from 'zustand';
 import { TwitterUser } from '../interfaces/TwitterUser';
-import { getUser, getUserMedias } from '../twitter/api';
+import {
+  getListInfo,
+  getTweetDetail,
+  getUser,
+  getUserMedias,
+} from '../twitter/api';
+import { TwitterList } from '../interfaces/TwitterList';
 import { TwitterPost } from '../interfaces/TwitterPost';
 import { DownloadFilter } from '../interfaces/DownloadFilter';
 import MediaType from '../enums/MediaType';
 import { produce } from 'immer';
+import { DownloadProfile } from '../interfaces/DownloadProfile';
+import { selectProfile, useDownloadProfileStore } from './download-profiles';
 
 export interface PostListRequest {
   list?: TwitterPost[];
@@ -17,24 +25,68 @@ export interface UserInfoRequest {
   loading: boolean;
 }
 
+export interface PostDetailRequest {
+  data?: TwitterPost;
+  loading: boolean;
+}
+
+export interface ListInfoRequest {
+  data?: TwitterList;
+  loading: boolean;
+}
+
 export interface HomepageStore {
   keyword: string;
   setKeyword: (kw: string) => void;
   filter: DownloadFilter;
   setFilter: (filter: DownloadFilter) => void;
+  /**
+   * 当前使用的下载方案，为空时使用全局设置的保存方式
+   */
+  profileId?: string;
+  /**
+   * 使用下载方案的过滤条件，profileId 为空时只取消方案，保留当前的过滤条件
+   */
+  applyProfile: (profileId?: string) => void;
 
   userInfo: UserInfoRequest;
   loadUser: (screenName: string) => Promise<void>;
   clearUser: () => void;
 
+  postDetail: PostDetailRequest;
+  loadPostDetail: (postId: string) => Promise<void>;
+  clearPostDetail: () => void;
+
+  listInfo: ListInfoRequest;
+  loadListInfo: (listId: string) => Promise<void>;
+  clearListInfo: () => void;
+
   postList: PostListRequest;
   clearPostList: () => void;
   loadPostList: () => Promise<void>;
   loadMorePostList: () => Promise<void>;
 }
 
+/**
+ * 方案中不保存日期范围，沿用当前的日期范围；已加载列表时保留列表下载源
+ */
+function mergeProfileFilter(
+  profile: DownloadProfile,
+  filter: DownloadFilter,
+): DownloadFilter {
+  return {
+    ...profile.filter,
+    dateRange: filter.dateRange,
+    ...(filter.source === 'list'
+      ? { source: 'list', listId: filter.listId }
+      : {}),
+  };
+}
+
 let loadPostListAbortController = new AbortController();
 let loadUserAbortController = new AbortController();
+let loadPostDetailAbortController = new AbortController();
+let loadListInfoAbortController = new AbortController();
 
 export const useHomepageStore = create<HomepageStore>((set, get) => ({
   keyword: '',
@@ -42,8 +94,25 @@ export const useHomepageStore = create<HomepageStore>((set, get) => ({
   filter: {
     mediaTypes: [MediaType.Photo, MediaType.Video, MediaType.Gif],
     source: 'medias',
+    searchProduct: 'Latest',
+    includeRetweets: false,
+    includeQuotes: true,
+    selfRepliesOnly: true,
   },
   setFilter: (filter) => set({ filter }),
+  profileId: undefined,
+  applyProfile: (profileId) => {
+    const profile = selectProfile(
+      useDownloadProfileStore.getState(),
+      profileId,
+    );
+    set({
+      profileId: profile?.id,
+      filter: profile
+        ? mergeProfileFilter(profile, get().filter)
+        : get().filter,
+    });
+  },
 
   userInfo: {
     loading: false,
@@ -67,11 +136,24 @@ export const useHomepageStore = create<HomepageStore>((set, get) => ({
         return;
       }
 
+      const { filter } = get();
+      // 从列表切换回用户时恢复默认的下载源
+      const userFilter: DownloadFilter =
+        filter.source === 'list' ? { ...filter, source: 'medias' } : filter;
+      const defaultProfile = useDownloadProfileStore
+        .getState()
+        .getUserDefault(value.id);
       set({
         userInfo: {
           loading: false,
           data: value,
         },
+        ...(defaultProfile
+          ? {
+              profileId: defaultProfile.id,
+              filter: mergeProfileFilter(defaultProfile, userFilter),
+            }
+          : { filter: userFilter }),
       });
     } catch (err: any) {
       set({
@@ -91,6 +173,104 @@ export const useHomepageStore = create<HomepageStore>((set, get) => ({
       },
     }),
 
+  postDetail: {
+    loading: false,
+    data: undefined,
+  },
+  loadPostDetail: async (postId) => {
+    set({
+      postDetail: {
+        data: undefined,
+        loading: true,
+      },
+    });
+
+    loadPostDetailAbortController.abort();
+    loadPostDetailAbortController = new AbortController();
+
+    try {
+      const value = await getTweetDetail(postId);
+
+      if (loadPostDetailAbortController.signal.aborted) {
+        return;
+      }
+
+      set({
+        postDetail: {
+          loading: false,
+          data: value,
+        },
+      });
+    } catch (err: any) {
+      set({
+        postDetail: {
+          data: undefined,
+          loading: false,
+        },
+      });
+      throw err;
+    }
+  },
+  clearPostDetail: () =>
+    set({
+      postDetail: {
+        loading: false,
+        data: undefined,
+      },
+    }),
+
+  listInfo: {
+    loading: false,
+    data: undefined,
+  },
+  loadListInfo: async (listId) => {
+    set({
+      listInfo: {
+        data: undefined,
+        loading: true,
+      },
+    });
+
+    loadListInfoAbortController.abort();
+    loadListInfoAbortController = new AbortController();
+
+    try {
+      const value = await getListInfo(listId);
+
+      if (loadListInfoAbortController.signal.aborted) {
+        return;
+      }
+
+      set({
+        listInfo: {
+          loading: false,
+          data: value,
+        },
+        // 加载列表后默认以该列表为下载源
+        filter: {
+          ...get().filter,
+          source: 'list',
+          listId: value.id,
+        },
+      });
+    } catch (err: any) {
+      set({
+        listInfo: {
+          data: undefined,
+          loading: false,
+        },
+      });
+      throw err;
+    }
+  },
+  clearListInfo: () =>
+    set({
+      listInfo: {
+        loading: false,
+        data: undefined,
+      },
+    }),
+
   postList: {
     list: undefined,
     loading: false,
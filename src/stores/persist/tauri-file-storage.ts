@@ -1,7 +1,59 @@
 import { fs, path } from '@tauri-apps/api';
-import { PersistStorage } from 'zustand/middleware';
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import * as R from 'ramda';
+import { EncryptedValue } from '../../utils/crypto';
+import { vault } from './vault';
 
-async function writeJsonFile<T = any>(filePath: string, value: T) {
+export interface TauriFileStorageOptions {
+  /**
+   * 合并写入的延迟（毫秒），适用于频繁变动的大体积状态，为 0 时立即写入
+   */
+  writeDelay?: number;
+  /**
+   * 需要加密保存的顶层字段，启用加密后这些字段以密文写入文件
+   */
+  sensitiveKeys?: string[];
+}
+
+interface EncryptedField {
+  __encrypted: EncryptedValue;
+}
+
+const isEncryptedField = (value: any): value is EncryptedField =>
+  R.is(Object, value) && R.has('__encrypted', value);
+
+async function encryptSensitiveKeys<T>(
+  value: StorageValue<T>,
+  keys: string[],
+): Promise<StorageValue<T>> {
+  const state: any = { ...value.state };
+  for (const key of keys) {
+    if (state[key] === undefined) continue;
+    state[key] = { __encrypted: await vault.encrypt(state[key]) };
+  }
+  return { ...value, state };
+}
+
+async function decryptSensitiveKeys<T>(
+  value: StorageValue<T>,
+  keys: string[],
+): Promise<StorageValue<T>> {
+  const state: any = { ...value.state };
+  for (const key of keys) {
+    if (!isEncryptedField(state[key])) continue;
+    if (vault.unlocked) {
+      state[key] = await vault.decrypt(state[key].__encrypted);
+    } else if (vault.enabled) {
+      throw new Error('数据已加密，请先解锁');
+    } else {
+      // 加密配置已被重置，无法解密的数据只能丢弃
+      delete state[key];
+    }
+  }
+  return { ...value, state };
+}
+
+export async function writeJsonFile<T = any>(filePath: string, value: T) {
   const dir = await path.dirname(filePath);
   if (!(await fs.exists(dir))) {
     await fs.createDir(dir, {
@@ -11,7 +63,7 @@ async function writeJsonFile<T = any>(filePath: string, value: T) {
   await fs.writeTextFile(filePath, JSON.stringify(value, undefined, 2));
 }
 
-async function getJsonFile(filePath: string): Promise<any | null> {
+export async function getJsonFile(filePath: string): Promise<any | null> {
   if (!(await fs.exists(filePath))) {
     return null;
   }
@@ -20,13 +72,67 @@ async function getJsonFile(filePath: string): Promise<any | null> {
   return JSON.parse(text);
 }
 
-async function resolveFilePath(name: string): Promise<string> {
+export async function resolveFilePath(name: string): Promise<string> {
   return await path
     .appDataDir()
     .then(async (configDir) => await path.join(configDir, `${name}.json`));
 }
 
-export function createTauriFileStorage<T>(): PersistStorage<T> | undefined {
+/**
+ * 各个存储中等待合并写入的回调
+ */
+const pendingFlushes = new Set<() => Promise<void>>();
+
+/**
+ * 立即写入所有等待合并写入的状态，关闭窗口前调用
+ */
+export async function flushPendingWrites() {
+  await Promise.all(Array.from(pendingFlushes, (flush) => flush()));
+}
+
+export function createTauriFileStorage<T>(
+  options: TauriFileStorageOptions = {},
+): PersistStorage<T> | undefined {
+  const { writeDelay = 0, sensitiveKeys = [] } = options;
+
+  /**
+   * 返回实际写入文件的值，加密已启用但未解锁时返回 null，此时不写入以免覆盖密文
+   */
+  const serialize = async (
+    value: StorageValue<T>,
+  ): Promise<StorageValue<T> | null> => {
+    if (sensitiveKeys.length === 0 || !vault.enabled) return value;
+    if (!vault.unlocked) return null;
+    return await encryptSensitiveKeys(value, sensitiveKeys);
+  };
+
+  const write = async (name: string, value: StorageValue<T>) => {
+    const serialized = await serialize(value);
+    if (!serialized) {
+      log.warn('Vault is locked, skip writing persisted state', name);
+      return;
+    }
+    const filePath = await resolveFilePath(name);
+    await writeJsonFile(filePath, serialized);
+  };
+  const pendingValues = new Map<string, StorageValue<T>>();
+  const timeoutIds = new Map<string, number>();
+
+  const flush = async (name: string) => {
+    clearTimeout(timeoutIds.get(name));
+    timeoutIds.delete(name);
+    const value = pendingValues.get(name);
+    if (!value) return;
+    pendingValues.delete(name);
+    await write(name, value);
+  };
+
+  if (writeDelay > 0) {
+    pendingFlushes.add(async () => {
+      await Promise.all(Array.from(pendingValues.keys()).map(flush));
+    });
+  }
+
   return {
     async getItem(name) {
       const filePath = await resolveFilePath(name);
@@ -34,9 +140,15 @@ export function createTauriFileStorage<T>(): PersistStorage<T> | undefined {
         return null;
       }
 
-      return await getJsonFile(filePath);
+      const value = await getJsonFile(filePath);
+      if (!value || sensitiveKeys.length === 0) return value;
+      return await decryptSensitiveKeys(value, sensitiveKeys);
     },
     async removeItem(name) {
+      clearTimeout(timeoutIds.get(name));
+      timeoutIds.delete(name);
+      pendingValues.delete(name);
+
       const filePath = await resolveFilePath(name);
       if (!(await fs.exists(filePath))) {
         return;
@@ -45,8 +157,21 @@ export function createTauriFileStorage<T>(): PersistStorage<T> | undefined {
       await fs.removeFile(filePath);
     },
     async setItem(name, value) {
-      const filePath = await resolveFilePath(name);
-      await writeJsonFile(filePath, value);
+      if (writeDelay <= 0) {
+        await write(name, value);
+        return;
+      }
+
+      pendingValues.set(name, value);
+      if (timeoutIds.has(name)) return;
+      timeoutIds.set(
+        name,
+        setTimeout(() => {
+          flush(name).catch((err) => {
+            log.error('Write persisted state failed', name, err);
+          });
+        }, writeDelay),
+      );
     },
   };
 }
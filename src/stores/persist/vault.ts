@@ -0,0 +1,161 @@
+import { fs } from '@tauri-apps/api';
+import {
+  EncryptedValue,
+  bytesToBase64,
+  base64ToBytes,
+  decryptJson,
+  deriveKey,
+  encryptJson,
+  randomBytes,
+} from '../../utils/crypto';
+import {
+  getJsonFile,
+  resolveFilePath,
+  writeJsonFile,
+} from './tauri-file-storage';
+
+const VAULT_FILE_NAME = 'vault';
+const PBKDF2_ITERATIONS = 310000;
+/**
+ * 用于校验密码是否正确的明文
+ */
+const VERIFIER_TEXT = 'x-spider-vault';
+
+interface VaultConfig {
+  version: 1;
+  salt: string;
+  iterations: number;
+  verifier: EncryptedValue;
+}
+
+/**
+ * 基于密码的加密保险库，用于加密持久化数据中的敏感字段。
+ * 启用后密码不会被保存，每次启动时需要重新输入密码解锁
+ */
+class Vault {
+  #config: VaultConfig | null = null;
+  #key: CryptoKey | null = null;
+  #rewriters = new Set<() => Promise<void>>();
+
+  get enabled() {
+    return this.#config !== null;
+  }
+
+  get unlocked() {
+    return this.#key !== null;
+  }
+
+  async load() {
+    this.#config = await getJsonFile(await resolveFilePath(VAULT_FILE_NAME));
+  }
+
+  /**
+   * 使用密码解锁，密码错误时返回 false
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.#config) return true;
+    const key = await deriveKey(
+      passphrase,
+      base64ToBytes(this.#config.salt),
+      this.#config.iterations,
+    );
+    try {
+      await decryptJson(key, this.#config.verifier);
+    } catch (err) {
+      return false;
+    }
+    this.#key = key;
+    return true;
+  }
+
+  /**
+   * 注册重新写入敏感数据的回调，密钥变化（启用、停用、修改密码）时用新密钥重新写入
+   */
+  registerRewriter(fn: () => Promise<void>): () => void {
+    this.#rewriters.add(fn);
+    return () => this.#rewriters.delete(fn);
+  }
+
+  /**
+   * 先用新密钥重新写入敏感数据，全部写入后再保存加密配置，
+   * 避免配置与数据使用的密钥不一致。失败时恢复原来的密钥并重新写入
+   */
+  async #changeKey(
+    config: VaultConfig | null,
+    key: CryptoKey | null,
+    commit: () => Promise<void>,
+  ) {
+    const previousConfig = this.#config;
+    const previousKey = this.#key;
+    this.#config = config;
+    this.#key = key;
+    try {
+      await this.#rewrite();
+      await commit();
+    } catch (err) {
+      this.#config = previousConfig;
+      this.#key = previousKey;
+      await this.#rewrite().catch((rewriteErr) => {
+        log.error('Restore sensitive data failed', rewriteErr);
+      });
+      throw err;
+    }
+  }
+
+  async #rewrite() {
+    for (const rewrite of this.#rewriters) {
+      await rewrite();
+    }
+  }
+
+  /**
+   * 设置新密码，未启用时启用加密，已启用时需要先解锁
+   */
+  async setPassphrase(passphrase: string) {
+    if (this.enabled && !this.unlocked) throw new Error('请先解锁');
+
+    const salt = randomBytes(16);
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: VaultConfig = {
+      version: 1,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptJson(key, VERIFIER_TEXT),
+    };
+    await this.#changeKey(config, key, async () => {
+      await writeJsonFile(await resolveFilePath(VAULT_FILE_NAME), config);
+    });
+  }
+
+  /**
+   * 停用加密，已加密的数据会以明文重新写入
+   */
+  async disable() {
+    if (this.enabled && !this.unlocked) throw new Error('请先解锁');
+    await this.#changeKey(null, null, () => this.reset());
+  }
+
+  /**
+   * 忘记密码时清除加密配置，已加密的数据将无法恢复
+   */
+  async reset() {
+    const filePath = await resolveFilePath(VAULT_FILE_NAME);
+    if (await fs.exists(filePath)) {
+      await fs.removeFile(filePath);
+    }
+    this.#config = null;
+    this.#key = null;
+  }
+
+  async encrypt(value: any): Promise<EncryptedValue> {
+    if (!this.#key) throw new Error('Vault is locked');
+    return await encryptJson(this.#key, value);
+  }
+
+  async decrypt<T = any>(value: EncryptedValue): Promise<T> {
+    if (!this.#key) throw new Error('Vault is locked');
+    return await decryptJson<T>(this.#key, value);
+  }
+}
+
+export const vault = new Vault();
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { RateLimitState } from '../interfaces/RateLimitState';
+import { Response } from '../interfaces/Response';
+
+/**
+ * 返回 429 但没有重置时间时的默认等待时长
+ */
+const DEFAULT_RESET_DELAY = 15 * 60 * 1000;
+
+export interface RateLimitStore {
+  /**
+   * 以账号 ID 与 GraphQL 接口名为键的频率限制状态，频率限制按账号分别计算
+   */
+  states: Record<string, RateLimitState>;
+  /**
+   * 根据响应头 x-rate-limit-* 更新接口的频率限制状态
+   */
+  updateFromResponse: (
+    accountId: string,
+    operationName: string,
+    response: Response,
+  ) => void;
+  /**
+   * 接口当前被限制时返回解除限制的时间戳，否则返回 undefined
+   */
+  getLimitedUntil: (
+    accountId: string,
+    operationName: string,
+  ) => number | undefined;
+}
+
+const toStateKey = (accountId: string, operationName: string) =>
+  `${accountId}/${operationName}`;
+
+function getHeader(response: Response, name: string): string | undefined {
+  const entry = Object.entries(response.headers || {}).find(
+    ([key]) => key.toLowerCase() === name,
+  );
+  return entry?.[1]?.[0];
+}
+
+function parseNumberHeader(
+  response: Response,
+  name: string,
+): number | undefined {
+  const value = Number(getHeader(response, name));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export const useRateLimitStore = create<RateLimitStore>((set, get) => ({
+  states: {},
+  updateFromResponse: (accountId, operationName, response) => {
+    const limit = parseNumberHeader(response, 'x-rate-limit-limit');
+    const reset = parseNumberHeader(response, 'x-rate-limit-reset');
+    let remaining = parseNumberHeader(response, 'x-rate-limit-remaining');
+
+    if (response.status === 429) remaining = 0;
+    if (remaining === undefined) return;
+
+    const resetAt =
+      reset !== undefined ? reset * 1000 : Date.now() + DEFAULT_RESET_DELAY;
+
+    set({
+      states: {
+        ...get().states,
+        [toStateKey(accountId, operationName)]: { limit, remaining, resetAt },
+      },
+    });
+  },
+  getLimitedUntil: (accountId, operationName) => {
+    const state = get().states[toStateKey(accountId, operationName)];
+    if (!state || state.remaining > 0 || state.resetAt <= Date.now()) {
+      return undefined;
+    }
+    return state.resetAt;
+  },
+}));
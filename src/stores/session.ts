@@ -0,0 +1,79 @@
+import { notification } from '@tauri-apps/api';
+import { create } from 'zustand';
+import { SessionExpiredError } from '../errors/SessionExpiredError';
+import { SessionState } from '../interfaces/SessionState';
+import { TwitterAccount } from '../interfaces/TwitterAccount';
+import { getAccountInfo } from '../twitter/api';
+import { EventEmitter } from '../utils/event';
+
+export interface SessionStore {
+  /**
+   * 以账号 ID 为键的登录状态
+   */
+  states: Record<string, SessionState>;
+  /**
+   * 通过 getAccountInfo 检查账号登录状态，返回登录是否已失效。
+   * 网络错误等无法确定状态时不视为失效
+   */
+  checkSession: (account: TwitterAccount) => Promise<boolean>;
+  markSessionExpired: (account: TwitterAccount) => void;
+  isSessionExpired: (account: TwitterAccount) => boolean;
+}
+
+/**
+ * 用户在提示中选择重新登录时触发，参数为账号 ID
+ */
+export const onReloginRequested = new EventEmitter<string>();
+
+export const useSessionStore = create<SessionStore>((set, get) => ({
+  states: {},
+  checkSession: async (account) => {
+    try {
+      await getAccountInfo(account);
+      set({
+        states: {
+          ...get().states,
+          [account.id]: {
+            status: 'valid',
+            checkedAt: Date.now(),
+            cookieString: account.cookieString,
+          },
+        },
+      });
+      return false;
+    } catch (err: any) {
+      if (!(err instanceof SessionExpiredError)) {
+        log.warn('Check session failed', account.id, err);
+        return false;
+      }
+      get().markSessionExpired(account);
+      return true;
+    }
+  },
+  markSessionExpired: (account) => {
+    const wasExpired = get().isSessionExpired(account);
+    set({
+      states: {
+        ...get().states,
+        [account.id]: {
+          status: 'expired',
+          checkedAt: Date.now(),
+          cookieString: account.cookieString,
+        },
+      },
+    });
+
+    if (!wasExpired) {
+      notification.sendNotification({
+        title: '账号登录已失效',
+        body: `账号 ${account.label} 的登录已失效，下载队列已暂停，请重新登录`,
+      });
+    }
+  },
+  isSessionExpired: (account) => {
+    const state = get().states[account.id];
+    return (
+      state?.status === 'expired' && state.cookieString === account.cookieString
+    );
+  },
+}));
@@ -52,6 +52,25 @@ export const useSettingsStore = create(
           delete state.download.savePath;
         }
 
+        if (version <= 2) {
+          state.download.downloadedSkip =
+            DEFAULT_SETTINGS.download.downloadedSkip;
+        }
+
+        if (version <= 3) {
+          state.download.videoVariantPolicy =
+            DEFAULT_SETTINGS.download.videoVariantPolicy;
+          state.download.videoMaxResolution =
+            DEFAULT_SETTINGS.download.videoMaxResolution;
+          state.download.videoContentType =
+            DEFAULT_SETTINGS.download.videoContentType;
+        }
+
+        if (version <= 4) {
+          state.download.photoSize = DEFAULT_SETTINGS.download.photoSize;
+          state.download.photoFormat = DEFAULT_SETTINGS.download.photoFormat;
+        }
+
         return state;
       },
     },
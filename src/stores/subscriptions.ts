@@ -0,0 +1,132 @@
+import { nanoid } from 'nanoid';
+import * as R from 'ramda';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DownloadFilter } from '../interfaces/DownloadFilter';
+import { DownloadOutput } from '../interfaces/DownloadOutput';
+import {
+  Subscription,
+  SubscriptionRunResult,
+} from '../interfaces/Subscription';
+import { TwitterUser } from '../interfaces/TwitterUser';
+import { reviveTwitterUser } from '../twitter/utils';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+
+export const DEFAULT_SUBSCRIPTION_INTERVAL = 6 * 60;
+
+export interface AddSubscriptionOptions {
+  /**
+   * 同步间隔（分钟）
+   */
+  interval?: number;
+  output?: DownloadOutput;
+}
+
+export interface SubscriptionStore {
+  subscriptions: Subscription[];
+  addSubscription: (
+    user: TwitterUser,
+    filter: DownloadFilter,
+    options?: AddSubscriptionOptions,
+  ) => void;
+  removeSubscription: (id: string) => void;
+  updateSubscription: (
+    id: string,
+    patch: Partial<Pick<Subscription, 'interval' | 'enabled' | 'filter'>>,
+  ) => void;
+  /**
+   * 标记订阅已加入爬取队列，并安排下一次运行时间
+   */
+  markSubscriptionQueued: (id: string, now?: number) => void;
+  reportSubscriptionResult: (id: string, result: SubscriptionRunResult) => void;
+}
+
+function reviveSubscription(subscription: any): Subscription {
+  return {
+    ...subscription,
+    user: reviveTwitterUser(subscription.user),
+  };
+}
+
+export const useSubscriptionStore = create(
+  persist<SubscriptionStore>(
+    (set, get) => {
+      const adjust = (id: string, fn: (s: Subscription) => Subscription) => {
+        set({
+          subscriptions: get().subscriptions.map((s) =>
+            s.id === id ? fn(s) : s,
+          ),
+        });
+      };
+
+      return {
+        subscriptions: [],
+        addSubscription: (
+          user,
+          filter,
+          { interval = DEFAULT_SUBSCRIPTION_INTERVAL, output } = {},
+        ) => {
+          const now = Date.now();
+          set({
+            subscriptions: get().subscriptions.concat({
+              id: nanoid(),
+              user,
+              // 定期同步时固定的日期范围没有意义，只同步上次之后的新帖子
+              filter: {
+                ...R.omit(['dateRange'], filter),
+                onlyNew: true,
+              },
+              output,
+              interval,
+              enabled: true,
+              createdAt: now,
+              // 新订阅立即同步一次，之后按间隔同步
+              nextRunAt: now,
+            }),
+          });
+        },
+        removeSubscription: (id) => {
+          set({
+            subscriptions: get().subscriptions.filter((s) => s.id !== id),
+          });
+        },
+        updateSubscription: (id, patch) => {
+          adjust(id, (s) => {
+            const newSubscription = { ...s, ...patch };
+            // 还未同步过的订阅保持立即同步
+            if (patch.interval !== undefined && s.lastRunAt) {
+              newSubscription.nextRunAt =
+                s.lastRunAt + patch.interval * 60 * 1000;
+            }
+            return newSubscription;
+          });
+        },
+        markSubscriptionQueued: (id, now = Date.now()) => {
+          adjust(id, (s) => ({
+            ...s,
+            lastRunAt: now,
+            nextRunAt: now + s.interval * 60 * 1000,
+          }));
+        },
+        reportSubscriptionResult: (id, result) => {
+          adjust(id, (s) => ({
+            ...s,
+            lastResult: result,
+          }));
+        },
+      };
+    },
+    {
+      name: 'subscriptions',
+      version: 1,
+      storage: createTauriFileStorage(),
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        subscriptions: R.defaultTo(
+          [],
+          (persistedState as SubscriptionStore | undefined)?.subscriptions,
+        ).map(reviveSubscription),
+      }),
+    },
+  ),
+);
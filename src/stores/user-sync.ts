@@ -0,0 +1,61 @@
+import * as R from 'ramda';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DownloadFilter } from '../interfaces/DownloadFilter';
+import { UserSyncState } from '../interfaces/UserSyncState';
+import { createTauriFileStorage } from './persist/tauri-file-storage';
+
+export interface UserSyncStore {
+  /**
+   * 以「用户 ID/下载源」为键的同步进度，媒体、帖子与回复的进度互不影响
+   */
+  states: Record<string, UserSyncState>;
+  updateSyncState: (state: UserSyncState) => void;
+  removeSyncState: (userId: string, source: DownloadFilter['source']) => void;
+}
+
+const toStateKey = (userId: string, source: DownloadFilter['source']) =>
+  `${userId}/${source}`;
+
+export const useUserSyncStore = create(
+  persist<UserSyncStore>(
+    (set, get) => ({
+      states: {},
+      updateSyncState: (state) => {
+        set({
+          states: {
+            ...get().states,
+            [toStateKey(state.userId, state.source)]: state,
+          },
+        });
+      },
+      removeSyncState: (userId, source) => {
+        set({ states: R.dissoc(toStateKey(userId, source), get().states) });
+      },
+    }),
+    {
+      name: 'user-sync',
+      version: 2,
+      storage: createTauriFileStorage(),
+      migrate(state: any, version) {
+        if (version === 1) {
+          // 旧版本只按用户记录进度，无法得知来自哪个下载源。
+          // 媒体时间线是帖子时间线的子集，两者的进度用于媒体时都不会漏掉帖子
+          state.states = R.pipe(
+            R.values<Record<string, Omit<UserSyncState, 'source'>>>,
+            R.map((item): UserSyncState => ({ ...item, source: 'medias' })),
+            R.indexBy((item) => toStateKey(item.userId, item.source)),
+          )(state.states || {});
+        }
+
+        return state;
+      },
+    },
+  ),
+);
+
+export const selectSyncState = (
+  state: UserSyncStore,
+  userId: string,
+  source: DownloadFilter['source'],
+): UserSyncState | undefined => state.states[toStateKey(userId, source)];
@@ -8,18 +8,31 @@ import {
   TwitterMediaGif,
   TwitterMediaPhoto,
   TwitterMediaVideo,
+  TwitterVideoVariant,
 } from '../interfaces/TwitterMedia';
 import { TwitterPost } from '../interfaces/TwitterPost';
 import { TwitterUser } from '../interfaces/TwitterUser';
+import { TwitterList } from '../interfaces/TwitterList';
 import { request } from '../ipc/network';
-import { useAppStateStore } from '../stores/app-state';
+import { getCurrentAccount } from '../stores/app-state';
 import { parseCookie } from '../utils/cookie';
 import MediaType from '../enums/MediaType';
+import { useGraphqlStore } from '../stores/graphql';
+import { useRateLimitStore } from '../stores/rate-limit';
+import { RateLimitError } from '../errors/RateLimitError';
+import { ResponseError } from '../errors/ResponseError';
+import { SessionExpiredError } from '../errors/SessionExpiredError';
+import { TwitterAccount } from '../interfaces/TwitterAccount';
+import { GraphqlOperationName } from './graphql';
+import { compareTwitterId } from './utils';
 
 const HOST = 'x.com';
 
-function getCommonHeaders(withCredentials = true): Record<string, string> {
-  const cookies = useAppStateStore.getState().cookieString;
+function getCommonHeaders(
+  account: Pick<TwitterAccount, 'cookieString'> | undefined,
+  withCredentials = true,
+): Record<string, string> {
+  const cookies = account?.cookieString || '';
   return {
     'User-Agent': navigator.userAgent,
     Referer: `https://${HOST}`,
@@ -37,25 +50,100 @@ function getCommonHeaders(withCredentials = true): Record<string, string> {
 function ensureResponse(response: Response) {
   if (response.status >= 400) {
     log.error(response);
-    throw new Error(`Response error: status=${response.status}`);
+    throw new ResponseError(response.status);
   }
 }
 
+interface GraphqlRequestOptions {
+  variables: Record<string, any>;
+  fieldToggles?: Record<string, any>;
+  /**
+   * 发送请求使用的账号，默认为当前账号
+   */
+  account?: TwitterAccount;
+}
+
+export interface TimelineRequestOptions {
+  count?: number;
+  account?: TwitterAccount;
+}
+
+async function sendGraphqlRequest(
+  name: GraphqlOperationName,
+  options: GraphqlRequestOptions,
+): Promise<Response> {
+  const account = options.account || getCurrentAccount();
+  const accountId = account?.id || '';
+  const rateLimit = useRateLimitStore.getState();
+  const limitedUntil = rateLimit.getLimitedUntil(accountId, name);
+  if (limitedUntil) throw new RateLimitError(name, limitedUntil, accountId);
+
+  const { queryId, features } = useGraphqlStore.getState().getOperation(name);
+  const resp = await request({
+    method: 'GET',
+    url: `https://${HOST}/i/api/graphql/${queryId}/${name}`,
+    responseType: 'json',
+    query: {
+      features: JSON.stringify(features),
+      variables: JSON.stringify(options.variables),
+      ...(options.fieldToggles
+        ? { fieldToggles: JSON.stringify(options.fieldToggles) }
+        : {}),
+    },
+    headers: getCommonHeaders(account),
+    proxyUrl: account?.proxyUrl,
+  });
+
+  rateLimit.updateFromResponse(accountId, name, resp);
+  if (resp.status === 429) {
+    const resetAt = rateLimit.getLimitedUntil(accountId, name) || Date.now();
+    throw new RateLimitError(name, resetAt, accountId);
+  }
+  return resp;
+}
+
+/**
+ * 发送 GraphQL 请求，queryId 或 features 过期时接口会返回 400/404（正文可能为空），
+ * 此时重新解析接口参数并重试一次。触发频率限制时抛出 RateLimitError
+ */
+async function graphqlRequest(
+  name: GraphqlOperationName,
+  options: GraphqlRequestOptions,
+): Promise<Response> {
+  let resp = await sendGraphqlRequest(name, options);
+
+  if (resp.status === 400 || resp.status === 404) {
+    log.warn(`Graphql operation ${name} failed`, resp.status, resp.body);
+    const refreshed = await useGraphqlStore.getState().refreshOperations();
+    if (refreshed) {
+      resp = await sendGraphqlRequest(name, options);
+    }
+  }
+
+  ensureResponse(resp);
+  return resp;
+}
+
 export async function getAccountInfo(
-  cookieStringOverride?: string,
+  account: Pick<TwitterAccount, 'cookieString' | 'proxyUrl'>,
 ): Promise<TwitterAccountInfo> {
   const res = await request({
     method: 'GET',
     url: `https://${HOST}`,
     responseType: 'text',
-    headers: R.mergeRight(getCommonHeaders(false), {
-      Cookie: cookieStringOverride,
+    headers: R.mergeRight(getCommonHeaders(account, false), {
+      Cookie: account.cookieString,
     }),
+    proxyUrl: account.proxyUrl,
   });
+  if (res.status === 401 || res.status === 403) {
+    throw new SessionExpiredError();
+  }
   ensureResponse(res);
   const html = res.body as string;
   const nameMatch = html.match(/"screen_name":"(.*?)"/);
-  if (nameMatch === null) throw new Error('Cannot find name in response');
+  // 未登录时页面中没有当前用户信息
+  if (nameMatch === null) throw new SessionExpiredError();
 
   const avatarMatch = html.match(/"profile_image_url_https":"(.*?)"/);
   if (avatarMatch === null) throw new Error('Cannot find avatar in response');
@@ -67,34 +155,13 @@ export async function getAccountInfo(
 }
 
 export async function getUser(screenName: string): Promise<TwitterUser> {
-  const resp = await request({
-    method: 'GET',
-    responseType: 'json',
-    url: `https://${HOST}/i/api/graphql/NimuplG1OB7Fd2btCLdBOw/UserByScreenName`,
-    query: {
-      features: JSON.stringify({
-        hidden_profile_likes_enabled: true,
-        hidden_profile_subscriptions_enabled: true,
-        responsive_web_graphql_exclude_directive_enabled: true,
-        verified_phone_label_enabled: false,
-        subscriptions_verification_info_is_identity_verified_enabled: true,
-        subscriptions_verification_info_verified_since_enabled: true,
-        highlights_tweets_tab_ui_enabled: true,
-        responsive_web_twitter_article_notes_tab_enabled: false,
-        creator_subscriptions_tweet_preview_api_enabled: true,
-        responsive_web_graphql_skip_user_profile_image_extensions_enabled:
-          false,
-        responsive_web_graphql_timeline_navigation_enabled: true,
-      }),
-      fieldToggles: JSON.stringify({ withAuxiliaryUserLabels: false }),
-      variables: JSON.stringify({
-        screen_name: screenName,
-        withSafetyModeUserFields: true,
-      }),
+  const resp = await graphqlRequest('UserByScreenName', {
+    variables: {
+      screen_name: screenName,
+      withSafetyModeUserFields: true,
     },
-    headers: getCommonHeaders(),
+    fieldToggles: { withAuxiliaryUserLabels: false },
   });
-  ensureResponse(resp);
 
   const data = R.path(['data', 'user', 'result', 'legacy'])(resp.body) as any;
 
@@ -104,6 +171,7 @@ export async function getUser(screenName: string): Promise<TwitterUser> {
 
   return {
     avatar: data?.profile_image_url_https,
+    banner: data?.profile_banner_url,
     name: data?.name,
     screenName: data?.screen_name,
     id: R.path<string>(['data', 'user', 'result', 'rest_id'])(
@@ -114,6 +182,20 @@ export async function getUser(screenName: string): Promise<TwitterUser> {
   };
 }
 
+/**
+ * 视频链接中包含分辨率，如：/vid/avc1/1280x720/xxx.mp4
+ */
+const toVideoVariant = (item: any): TwitterVideoVariant => {
+  const resolution = item?.url?.match(/\/(\d+)x(\d+)\//);
+  return {
+    bitrate: item?.bitrate,
+    contentType: item?.content_type || item?.contentType,
+    url: item?.url,
+    width: resolution ? Number(resolution[1]) : undefined,
+    height: resolution ? Number(resolution[2]) : undefined,
+  };
+};
+
 const mapTwitterPosts = (posts: any[]) => {
   const mapTwitterMedias = (medias: any[]) => {
     const toTwitterMediaBase: (v: any) => TwitterMediaBase = (v: any) => {
@@ -135,11 +217,7 @@ const mapTwitterPosts = (posts: any[]) => {
       type: MediaType.Video,
       videoInfo: {
         duration: v?.video_info?.duration_millis,
-        variants: v?.video_info?.variants?.map?.((item: any) => ({
-          bitrate: item?.bitrate,
-          contentType: item?.contentType,
-          url: item?.url,
-        })),
+        variants: v?.video_info?.variants?.map?.(toVideoVariant),
         aspectRatio: v?.aspect_ratio,
       },
     });
@@ -149,6 +227,7 @@ const mapTwitterPosts = (posts: any[]) => {
       type: MediaType.Gif,
       videoInfo: {
         url: v?.video_info?.variants?.[0]?.url,
+        variants: v?.video_info?.variants?.map?.(toVideoVariant),
         aspectRatio: v?.video_info?.aspect_ratio,
       },
     });
@@ -165,7 +244,15 @@ const mapTwitterPosts = (posts: any[]) => {
       R.filter<TwitterMedia | null, TwitterMedia>(R.isNotNil),
     )(medias);
   };
-  return R.map<any, TwitterPost>((item) => {
+  const toTwitterPost = (item: any): TwitterPost => {
+    const retweeted = item?.legacy?.retweeted_status_result?.result;
+    const quoted = item?.quoted_status_result?.result;
+    // 已删除或不可见的推文为 TweetTombstone，没有 rest_id
+    const toNestedPost = (result: any) => {
+      const tweet = result ? unwrapTweetResult(result) : undefined;
+      return tweet?.rest_id ? toTwitterPost(tweet) : undefined;
+    };
+
     return {
       id: item?.rest_id,
       views: R.isNotNil(item?.views?.count)
@@ -184,6 +271,9 @@ const mapTwitterPosts = (posts: any[]) => {
       replyCount: item?.legacy?.reply_count,
       retweeted: item?.legacy?.retweeted,
       retweetCount: item?.legacy?.retweet_count,
+      inReplyToPostId: item?.legacy?.in_reply_to_status_id_str,
+      inReplyToUserId: item?.legacy?.in_reply_to_user_id_str,
+      conversationId: item?.legacy?.conversation_id_str,
       medias: item?.legacy?.entities?.media
         ? mapTwitterMedias(item.legacy?.entities?.media)
         : undefined,
@@ -200,11 +290,36 @@ const mapTwitterPosts = (posts: any[]) => {
         screenName: item?.core?.user_results?.result?.legacy?.screen_name,
         registerTime: item?.core?.user_results?.result?.legacy?.created_at,
       },
+      retweetedPost: toNestedPost(retweeted),
+      quotedPost: toNestedPost(quoted),
     };
-  })(posts);
+  };
+
+  return R.map(toTwitterPost)(posts);
 };
 
-const pathToInstructions = R.path<any>([
+/**
+ * 对于受限推文，真正的推文数据包裹在 TweetWithVisibilityResults 中
+ */
+const unwrapTweetResult = R.ifElse<any, any, any>(
+  R.propEq('TweetWithVisibilityResults', '__typename'),
+  R.prop('tweet'),
+  R.identity,
+);
+
+/**
+ * 推文本身、被转推或被引用的推文中带有媒体
+ */
+const hasAnyMedia = (result: any): boolean =>
+  R.any(R.hasPath(['legacy', 'entities', 'media']), [
+    result,
+    unwrapTweetResult(
+      R.pathOr({}, ['legacy', 'retweeted_status_result', 'result'], result),
+    ),
+    unwrapTweetResult(R.pathOr({}, ['quoted_status_result', 'result'], result)),
+  ]);
+
+const pathToUserInstructions = R.path<any>([
   'data',
   'user',
   'result',
@@ -213,122 +328,142 @@ const pathToInstructions = R.path<any>([
   'instructions',
 ]);
 
-export async function getUserMedias(
-  userId: string,
-  cursor?: string,
-  count = 20,
-): Promise<{
+const pathToBookmarkInstructions = R.path<any>([
+  'data',
+  'bookmark_timeline_v2',
+  'timeline',
+  'instructions',
+]);
+
+const pathToListInstructions = R.path<any>([
+  'data',
+  'list',
+  'tweets_timeline',
+  'timeline',
+  'instructions',
+]);
+
+const pathToSearchInstructions = R.path<any>([
+  'data',
+  'search_by_raw_query',
+  'search_timeline',
+  'timeline',
+  'instructions',
+]);
+
+export interface TimelinePage {
   twitterPosts: TwitterPost[];
   cursor: string | null;
-}> {
-  const resp = await request({
-    method: 'GET',
-    url: `https://${HOST}/i/api/graphql/cEjpJXA15Ok78yO4TUQPeQ/UserMedia`,
-    responseType: 'json',
-    query: {
-      features: JSON.stringify({
-        responsive_web_graphql_exclude_directive_enabled: true,
-        verified_phone_label_enabled: false,
-        creator_subscriptions_tweet_preview_api_enabled: true,
-        responsive_web_graphql_timeline_navigation_enabled: true,
-        responsive_web_graphql_skip_user_profile_image_extensions_enabled:
-          false,
-        c9s_tweet_anatomy_moderator_badge_enabled: true,
-        tweetypie_unmention_optimization_enabled: true,
-        responsive_web_edit_tweet_api_enabled: true,
-        graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
-        view_counts_everywhere_api_enabled: true,
-        longform_notetweets_consumption_enabled: true,
-        responsive_web_twitter_article_tweet_consumption_enabled: true,
-        tweet_awards_web_tipping_enabled: false,
-        freedom_of_speech_not_reach_fetch_enabled: true,
-        standardized_nudges_misinfo: true,
-        tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
-          true,
-        rweb_video_timestamps_enabled: true,
-        longform_notetweets_rich_text_read_enabled: true,
-        longform_notetweets_inline_media_enabled: true,
-        responsive_web_media_download_video_enabled: false,
-        responsive_web_enhance_cards_enabled: false,
-      }),
-      variables: JSON.stringify({
-        userId,
-        count,
-        cursor,
-        includePromotedContent: false,
-        withClientEventToken: false,
-        withBirdwatchNotes: false,
-        withVoice: true,
-        withV2Timeline: true,
-      }),
-    },
-    headers: getCommonHeaders(),
-  });
-  ensureResponse(resp);
+}
 
-  const extractTwitterPosts = (
-    pathToInstructions: (data: any) => any,
-    data: any,
-  ): TwitterPost[] | undefined => {
-    const pathToTwitterPostItems = (instructions: any): any => {
-      const pathToModuleItemsFirst = R.pipe(
-        R.find(R.pathEq('TimelineAddEntries', ['type'])),
-        R.defaultTo({}),
-        R.prop('entries'),
-        R.defaultTo([]),
-        R.find(R.pathEq('TimelineTimelineModule', ['content', 'entryType'])),
-        R.defaultTo({}),
-        R.path<any>(['content', 'items']),
+/**
+ * 从时间线指令中提取原始推文数据，兼容单条推文、模块（媒体网格、对话）与追加到模块的条目
+ */
+const extractTimelineTweetResults = (instructions: any[]): any[] => {
+  const pathToTweetResult = R.pipe(
+    R.path(['itemContent', 'tweet_results', 'result']),
+    R.unless(R.isNil, unwrapTweetResult),
+  );
+
+  const fromEntry = (entry: any): any[] => {
+    if (entry?.content?.entryType === 'TimelineTimelineModule') {
+      return R.defaultTo([], entry.content.items).map((moduleItem: any) =>
+        pathToTweetResult(moduleItem?.item),
       );
+    }
+    if (R.startsWith('tweet', R.defaultTo('', entry?.entryId))) {
+      return [pathToTweetResult(entry.content)];
+    }
+    return [];
+  };
 
-      const pathToModuleItemsMore = R.pipe(
-        R.find(R.pathEq('TimelineAddToModule', ['type'])),
-        R.defaultTo({}),
-        R.prop('moduleItems'),
-      );
+  return R.defaultTo([], instructions)
+    .flatMap((instruction: any) => {
+      if (instruction?.type === 'TimelineAddEntries') {
+        return R.defaultTo([], instruction.entries).flatMap(fromEntry);
+      }
+      if (instruction?.type === 'TimelineAddToModule') {
+        return R.defaultTo([], instruction.moduleItems).map((moduleItem: any) =>
+          pathToTweetResult(moduleItem?.item),
+        );
+      }
+      return [];
+    })
+    .filter(R.isNotNil);
+};
 
-      return R.pipe(
-        R.either(pathToModuleItemsFirst, pathToModuleItemsMore),
-        R.defaultTo([]),
-        R.map(
-          R.pipe(
-            R.path(['item', 'itemContent', 'tweet_results', 'result']),
-            R.ifElse<any, any, any>(
-              R.propEq('TweetWithVisibilityResults', '__typename'),
-              R.prop('tweet'),
-              R.identity,
-            ),
-          ),
-        ),
-      )(instructions);
+/**
+ * 提取下一页的游标，首页游标位于 TimelineAddEntries，部分时间线的后续页位于 TimelineReplaceEntry
+ */
+const extractBottomCursor = (instructions: any[]): string | null => {
+  const entries = R.defaultTo([], instructions).flatMap((instruction: any) => {
+    if (instruction?.type === 'TimelineAddEntries') {
+      return R.defaultTo([], instruction.entries);
+    }
+    if (instruction?.type === 'TimelineReplaceEntry') {
+      return [instruction.entry];
+    }
+    return [];
+  });
+
+  return R.pipe<any[], any, string | undefined, string | null>(
+    R.find(R.pathEq('Bottom', ['content', 'cursorType'])),
+    R.path(['content', 'value']),
+    R.defaultTo(null),
+  )(entries);
+};
+
+/**
+ * 提取一页时间线中带媒体的推文。到底后部分时间线仍会返回游标，没有结果时停止翻页
+ */
+const extractMediaTimelinePage = (instructions: any[]): TimelinePage => {
+  const tweetResults = extractTimelineTweetResults(instructions);
+
+  if (tweetResults.length === 0) {
+    return {
+      cursor: null,
+      twitterPosts: [],
     };
-    return R.pipe(
-      pathToInstructions,
-      R.ifElse(
-        R.isNil,
-        R.always([]),
-        R.pipe(pathToTwitterPostItems, R.filter(R.isNotNil), mapTwitterPosts),
-      ),
-    )(data);
-  };
+  }
 
-  const extractNextCursor = (
-    pathToInstructions: (data: any) => any,
-    data: any,
-  ): string | null => {
-    return R.pipe<any, any, any, any, any, string | undefined, string | null>(
-      pathToInstructions,
-      R.find(R.pathEq('TimelineAddEntries', ['type'])),
-      R.prop('entries'),
-      R.find(R.pathEq('Bottom', ['content', 'cursorType'])),
-      R.path(['content', 'value']),
-      R.defaultTo(null),
-    )(data);
+  const twitterPosts = R.pipe(
+    R.filter(hasAnyMedia),
+    mapTwitterPosts,
+  )(tweetResults);
+
+  log.info('twitterPosts', twitterPosts);
+
+  return {
+    twitterPosts,
+    cursor: extractBottomCursor(instructions),
   };
+};
+
+export async function getUserMedias(
+  userId: string,
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('UserMedia', {
+    account,
+    variables: {
+      userId,
+      count,
+      cursor,
+      includePromotedContent: false,
+      withClientEventToken: false,
+      withBirdwatchNotes: false,
+      withVoice: true,
+      withV2Timeline: true,
+    },
+  });
 
-  const twitterPosts = extractTwitterPosts(pathToInstructions, resp.body);
+  const instructions = pathToUserInstructions(resp.body);
+  const twitterPosts = mapTwitterPosts(
+    extractTimelineTweetResults(instructions),
+  );
 
-  if (!twitterPosts || twitterPosts.length === 0) {
+  if (twitterPosts.length === 0) {
     return {
       cursor: null,
       twitterPosts: [],
@@ -337,143 +472,40 @@ export async function getUserMedias(
 
   log.info('twitterPosts', twitterPosts);
 
-  const nextCursor = extractNextCursor(pathToInstructions, resp.body);
-
   return {
     twitterPosts,
-    cursor: nextCursor,
+    cursor: extractBottomCursor(instructions),
   };
 }
 
 export async function getUserTweets(
   userId: string,
   cursor?: string,
-  count = 20,
-): Promise<{
-  twitterPosts: TwitterPost[];
-  cursor: string | null;
-}> {
-  const resp = await request({
-    method: 'GET',
-    url: `https://${HOST}/i/api/graphql/9zyyd1hebl7oNWIPdA8HRw/UserTweets`,
-    responseType: 'json',
-    query: {
-      features: JSON.stringify({
-        rweb_tipjar_consumption_enabled: true,
-        responsive_web_graphql_exclude_directive_enabled: true,
-        verified_phone_label_enabled: false,
-        creator_subscriptions_tweet_preview_api_enabled: true,
-        responsive_web_graphql_timeline_navigation_enabled: true,
-        responsive_web_graphql_skip_user_profile_image_extensions_enabled:
-          false,
-        communities_web_enable_tweet_community_results_fetch: true,
-        c9s_tweet_anatomy_moderator_badge_enabled: true,
-        articles_preview_enabled: false,
-        tweetypie_unmention_optimization_enabled: true,
-        responsive_web_edit_tweet_api_enabled: true,
-        graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
-        view_counts_everywhere_api_enabled: true,
-        longform_notetweets_consumption_enabled: true,
-        responsive_web_twitter_article_tweet_consumption_enabled: true,
-        tweet_awards_web_tipping_enabled: false,
-        creator_subscriptions_quote_tweet_preview_enabled: false,
-        freedom_of_speech_not_reach_fetch_enabled: true,
-        standardized_nudges_misinfo: true,
-        tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
-          true,
-        tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
-          false,
-        rweb_video_timestamps_enabled: true,
-        longform_notetweets_rich_text_read_enabled: true,
-        longform_notetweets_inline_media_enabled: true,
-        responsive_web_enhance_cards_enabled: false,
-      }),
-      variables: JSON.stringify({
-        userId,
-        count,
-        cursor,
-        includePromotedContent: true,
-        withQuickPromoteEligibilityTweetFields: true,
-        withVoice: true,
-        withV2Timeline: true,
-      }),
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('UserTweets', {
+    account,
+    variables: {
+      userId,
+      count,
+      cursor,
+      includePromotedContent: true,
+      withQuickPromoteEligibilityTweetFields: true,
+      withVoice: true,
+      withV2Timeline: true,
     },
-    headers: getCommonHeaders(),
   });
-  ensureResponse(resp);
 
-  const extractTwitterPosts = (
-    pathToInstructions: (data: any) => any,
-    data: any,
-  ): TwitterPost[] | undefined => {
-    const pathToTwitterPostItems = (instructions: any): any => {
-      // @ts-ignore
-      return R.pipe(
-        R.find(R.pathEq('TimelineAddEntries', ['type'])),
-        R.defaultTo({}),
-        R.prop('entries'),
-        R.defaultTo([]),
-        R.map(
-          R.cond([
-            [
-              R.pathSatisfies(R.startsWith('tweet'), ['entryId']),
-              R.path(['content', 'itemContent', 'tweet_results', 'result']),
-            ],
-            [
-              R.pathSatisfies(R.startsWith('profile-conversation'), [
-                'entryId',
-              ]),
-              R.pipe(
-                R.path<any>(['content', 'items']),
-                R.map(
-                  R.path(['item', 'itemContent', 'tweet_results', 'result']),
-                ),
-              ),
-            ],
-            [R.T, R.always(undefined)],
-          ]),
-        ),
-        R.flatten,
-        R.filter(
-          R.allPass<any>([
-            R.isNotNil,
-            // 过滤掉转推
-            R.complement(R.hasPath(['legacy', 'retweeted_status_result'])),
-            // 过滤掉无媒体
-            R.hasPath(['legacy', 'entities', 'media']),
-            R.pathSatisfies(R.pipe(R.length, R.lte(0)), [
-              'legacy',
-              'entities',
-              'media',
-            ]),
-          ]),
-        ),
-      )(instructions);
-    };
-    return R.pipe(
-      pathToInstructions,
-      pathToTwitterPostItems,
-      mapTwitterPosts,
-    )(data);
-  };
+  const instructions = pathToUserInstructions(resp.body);
+  const twitterPosts = R.pipe(
+    extractTimelineTweetResults,
+    // 过滤掉无媒体，是否保留转推与引用由下载配置决定
+    R.filter(hasAnyMedia),
+    mapTwitterPosts,
+  )(instructions);
+  const nextCursor = extractBottomCursor(instructions);
 
-  const extractNextCursor = (
-    pathToInstructions: (data: any) => any,
-    data: any,
-  ): string | null => {
-    return R.pipe<any, any, any, any, any, string | undefined, string | null>(
-      pathToInstructions,
-      R.find(R.pathEq('TimelineAddEntries', ['type'])),
-      R.prop('entries'),
-      R.find(R.pathEq('Bottom', ['content', 'cursorType'])),
-      R.path(['content', 'value']),
-      R.defaultTo(null),
-    )(data);
-  };
-
-  const twitterPosts = extractTwitterPosts(pathToInstructions, resp.body);
-  const nextCursor = extractNextCursor(pathToInstructions, resp.body);
-  if (!twitterPosts || twitterPosts.length === 0) {
+  if (twitterPosts.length === 0) {
     return {
       cursor: nextCursor,
       twitterPosts: [],
@@ -487,3 +519,287 @@ export async function getUserTweets(
     cursor: nextCursor,
   };
 }
+
+/**
+ * 用户的帖子与回复，对话模块中会夹带被回复的推文，可能来自其他用户
+ */
+export async function getUserTweetsAndReplies(
+  userId: string,
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('UserTweetsAndReplies', {
+    account,
+    variables: {
+      userId,
+      count,
+      cursor,
+      includePromotedContent: true,
+      withCommunity: true,
+      withVoice: true,
+      withV2Timeline: true,
+    },
+  });
+
+  return extractMediaTimelinePage(pathToUserInstructions(resp.body));
+}
+
+/**
+ * 获取用户喜欢的推文，只能获取当前登录账号自己的喜欢
+ */
+export async function getLikes(
+  userId: string,
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('Likes', {
+    account,
+    variables: {
+      userId,
+      count,
+      cursor,
+      includePromotedContent: false,
+      withClientEventToken: false,
+      withBirdwatchNotes: false,
+      withVoice: true,
+      withV2Timeline: true,
+    },
+  });
+
+  return extractMediaTimelinePage(pathToUserInstructions(resp.body));
+}
+
+/**
+ * 获取当前登录账号的书签
+ */
+export async function getBookmarks(
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('Bookmarks', {
+    account,
+    variables: {
+      count,
+      cursor,
+      includePromotedContent: false,
+    },
+  });
+
+  return extractMediaTimelinePage(pathToBookmarkInstructions(resp.body));
+}
+
+export async function getListInfo(listId: string): Promise<TwitterList> {
+  const resp = await graphqlRequest('ListByRestId', {
+    variables: {
+      listId,
+    },
+  });
+
+  const data = R.path<any>(['data', 'list'])(resp.body);
+
+  if (!data?.id_str) {
+    throw new Error('找不到该列表');
+  }
+
+  const owner = R.path<any>(['user_results', 'result', 'legacy'])(data);
+
+  return {
+    id: data.id_str,
+    name: data.name,
+    description: data.description,
+    memberCount: data.member_count,
+    banner: R.path<string>([
+      'custom_banner_media',
+      'media_info',
+      'original_img_url',
+    ])(data),
+    owner: owner
+      ? {
+          name: owner.name,
+          screenName: owner.screen_name,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * 获取列表成员的最新推文，按发布时间倒序
+ */
+export async function getListTweets(
+  listId: string,
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('ListLatestTweetsTimeline', {
+    account,
+    variables: {
+      listId,
+      count,
+      cursor,
+    },
+  });
+
+  return extractMediaTimelinePage(pathToListInstructions(resp.body));
+}
+
+export type SearchProduct = 'Latest' | 'Media';
+
+export async function getSearchTimeline(
+  rawQuery: string,
+  product: SearchProduct,
+  cursor?: string,
+  { count = 20, account }: TimelineRequestOptions = {},
+): Promise<TimelinePage> {
+  const resp = await graphqlRequest('SearchTimeline', {
+    account,
+    variables: {
+      rawQuery,
+      count,
+      cursor,
+      querySource: 'typed_query',
+      product,
+    },
+  });
+
+  return extractMediaTimelinePage(pathToSearchInstructions(resp.body));
+}
+
+function requestTweetDetail(postId: string, cursor?: string) {
+  return graphqlRequest('TweetDetail', {
+    variables: {
+      focalTweetId: postId,
+      cursor,
+      with_rux_injections: false,
+      includePromotedContent: false,
+      withCommunity: true,
+      withQuickPromoteEligibilityTweetFields: true,
+      withBirdwatchNotes: true,
+      withVoice: true,
+      withV2Timeline: true,
+    },
+    fieldToggles: {
+      withArticleRichContentState: true,
+      withArticlePlainText: false,
+    },
+  });
+}
+
+const pathToConversationInstructions = R.path<any>([
+  'data',
+  'threaded_conversation_with_injections_v2',
+  'instructions',
+]);
+
+export async function getTweetDetail(postId: string): Promise<TwitterPost> {
+  const resp = await requestTweetDetail(postId);
+
+  const result = R.pipe<any, any, any, any, any, any, any, any>(
+    pathToConversationInstructions,
+    R.defaultTo([]),
+    R.find(R.pathEq('TimelineAddEntries', ['type'])),
+    R.propOr([], 'entries'),
+    R.find(R.propEq(`tweet-${postId}`, 'entryId')),
+    R.path(['content', 'itemContent', 'tweet_results', 'result']),
+    R.unless(R.isNil, unwrapTweetResult),
+  )(resp.body);
+
+  if (!result) {
+    throw new Error('找不到该推文');
+  }
+
+  const [twitterPost] = mapTwitterPosts([result]);
+  log.info('twitterPost', twitterPost);
+
+  return twitterPost;
+}
+
+/**
+ * 翻页时最多请求的页数，避免在大型对话中无限翻页
+ */
+const MAX_THREAD_PAGES = 10;
+
+/**
+ * 提取对话中需要继续加载的游标：对话底部的游标，以及作者回复串模块中的“显示更多”
+ */
+const extractThreadCursors = (
+  instructions: any[],
+  authorId: string,
+): string[] => {
+  const getCursor = (content: any, type: string) =>
+    content?.cursorType === type
+      ? content.value
+      : content?.itemContent?.cursorType === type
+        ? content.itemContent.value
+        : undefined;
+  const isAuthorModuleItem = (moduleItem: any) =>
+    R.path([
+      'item',
+      'itemContent',
+      'tweet_results',
+      'result',
+      'core',
+      'user_results',
+      'result',
+      'rest_id',
+    ])(moduleItem) === authorId;
+
+  return R.defaultTo([], instructions)
+    .flatMap((instruction: any) => {
+      if (instruction?.type === 'TimelineAddEntries') {
+        return R.defaultTo([], instruction.entries).flatMap((entry: any) => {
+          if (entry?.content?.entryType !== 'TimelineTimelineModule') {
+            return [getCursor(entry?.content, 'Bottom')];
+          }
+          const items = R.defaultTo([], entry.content.items);
+          if (!items.some(isAuthorModuleItem)) return [];
+          return items.map((item: any) => getCursor(item?.item, 'ShowMore'));
+        });
+      }
+      if (instruction?.type === 'TimelineAddToModule') {
+        return R.defaultTo([], instruction.moduleItems).map((item: any) =>
+          getCursor(item?.item, 'ShowMore'),
+        );
+      }
+      return [];
+    })
+    .filter(R.isNotNil);
+};
+
+/**
+ * 获取回复串中作者自己发布的全部推文（作者回复自己的推文），按发布顺序排列
+ */
+export async function getThreadPosts(
+  conversationId: string,
+  authorId: string,
+): Promise<TwitterPost[]> {
+  const tweetResults = new Map<string, any>();
+  const pendingCursors: (string | undefined)[] = [undefined];
+  const visitedCursors = new Set<string>();
+  let pageCount = 0;
+
+  while (pendingCursors.length > 0 && pageCount < MAX_THREAD_PAGES) {
+    const cursor = pendingCursors.shift();
+    pageCount++;
+    const resp = await requestTweetDetail(conversationId, cursor);
+    const instructions = pathToConversationInstructions(resp.body);
+
+    extractTimelineTweetResults(instructions).forEach((result) => {
+      if (result?.rest_id) tweetResults.set(result.rest_id, result);
+    });
+
+    extractThreadCursors(instructions, authorId)
+      .filter((item) => !visitedCursors.has(item))
+      .forEach((item) => {
+        visitedCursors.add(item);
+        pendingCursors.push(item);
+      });
+  }
+
+  return mapTwitterPosts(Array.from(tweetResults.values()))
+    .filter(
+      (post) =>
+        post.user?.id === authorId &&
+        (post.id === conversationId || post.inReplyToUserId === authorId),
+    )
+    .sort((a, b) => compareTwitterId(a.id, b.id));
+}
@@ -0,0 +1,396 @@
+import * as R from 'ramda';
+import { GraphqlOperation } from '../interfaces/GraphqlOperation';
+import { request } from '../ipc/network';
+import { getCurrentAccount } from '../stores/app-state';
+
+export type GraphqlOperationName =
+  | 'UserByScreenName'
+  | 'UserMedia'
+  | 'UserTweets'
+  | 'UserTweetsAndReplies'
+  | 'Likes'
+  | 'Bookmarks'
+  | 'ListByRestId'
+  | 'ListLatestTweetsTimeline'
+  | 'SearchTimeline'
+  | 'TweetDetail';
+
+/**
+ * 内置的接口参数，无法从网页获取最新参数时使用
+ */
+export const BUILT_IN_GRAPHQL_OPERATIONS: Record<
+  GraphqlOperationName,
+  GraphqlOperation
+> = {
+  UserByScreenName: {
+    queryId: 'NimuplG1OB7Fd2btCLdBOw',
+    operationName: 'UserByScreenName',
+    features: {
+      hidden_profile_likes_enabled: true,
+      hidden_profile_subscriptions_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      subscriptions_verification_info_is_identity_verified_enabled: true,
+      subscriptions_verification_info_verified_since_enabled: true,
+      highlights_tweets_tab_ui_enabled: true,
+      responsive_web_twitter_article_notes_tab_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+    },
+  },
+  UserMedia: {
+    queryId: 'cEjpJXA15Ok78yO4TUQPeQ',
+    operationName: 'UserMedia',
+    features: {
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_media_download_video_enabled: false,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  UserTweets: {
+    queryId: '9zyyd1hebl7oNWIPdA8HRw',
+    operationName: 'UserTweets',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  UserTweetsAndReplies: {
+    queryId: 'bt4TKuFz4T7Ckk-VvQVSow',
+    operationName: 'UserTweetsAndReplies',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  Likes: {
+    queryId: 'aeJWz--kknVBOl7wQ7gh7Q',
+    operationName: 'Likes',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  Bookmarks: {
+    queryId: 'QUjXply7fA7fk05FRyajEg',
+    operationName: 'Bookmarks',
+    features: {
+      graphql_timeline_v2_bookmark_timeline: true,
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  ListByRestId: {
+    queryId: 'sO9GCO6KQ3sSEVjSJSRpkg',
+    operationName: 'ListByRestId',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+    },
+  },
+  ListLatestTweetsTimeline: {
+    queryId: 'RlZzktZY_9wJynoepm8ZsA',
+    operationName: 'ListLatestTweetsTimeline',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  SearchTimeline: {
+    queryId: 'MJpyQGqgklrVl_0X9gNy3A',
+    operationName: 'SearchTimeline',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: false,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      tweet_with_visibility_results_prefer_gql_media_interstitial_enabled:
+        false,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+  TweetDetail: {
+    queryId: 'nBS-WpgA6ZG0CyNHD517JQ',
+    operationName: 'TweetDetail',
+    features: {
+      rweb_tipjar_consumption_enabled: true,
+      responsive_web_graphql_exclude_directive_enabled: true,
+      verified_phone_label_enabled: false,
+      creator_subscriptions_tweet_preview_api_enabled: true,
+      responsive_web_graphql_timeline_navigation_enabled: true,
+      responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+      communities_web_enable_tweet_community_results_fetch: true,
+      c9s_tweet_anatomy_moderator_badge_enabled: true,
+      articles_preview_enabled: true,
+      tweetypie_unmention_optimization_enabled: true,
+      responsive_web_edit_tweet_api_enabled: true,
+      graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+      view_counts_everywhere_api_enabled: true,
+      longform_notetweets_consumption_enabled: true,
+      responsive_web_twitter_article_tweet_consumption_enabled: true,
+      tweet_awards_web_tipping_enabled: false,
+      creator_subscriptions_quote_tweet_preview_enabled: false,
+      freedom_of_speech_not_reach_fetch_enabled: true,
+      standardized_nudges_misinfo: true,
+      tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+        true,
+      rweb_video_timestamps_enabled: true,
+      longform_notetweets_rich_text_read_enabled: true,
+      longform_notetweets_inline_media_enabled: true,
+      responsive_web_enhance_cards_enabled: false,
+    },
+  },
+};
+
+const GRAPHQL_OPERATION_NAMES = Object.keys(
+  BUILT_IN_GRAPHQL_OPERATIONS,
+) as GraphqlOperationName[];
+
+const isGraphqlOperationName = (name: string): name is GraphqlOperationName =>
+  (GRAPHQL_OPERATION_NAMES as readonly string[]).includes(name);
+
+const MAIN_SCRIPT_REGEX =
+  /https:\/\/abs\.twimg\.com\/responsive-web\/client-web[\w-]*\/main\.[\w]+\.js/;
+
+const OPERATION_REGEX =
+  /queryId:"([^"]+)",operationName:"([^"]+)",operationType:"[^"]+",metadata:\{featureSwitches:\[([^\]]*)\]/g;
+
+const FEATURE_VALUE_REGEX = /"([a-z0-9_]+)":\{"value":(true|false)\}/g;
+
+async function fetchText(url: string): Promise<string> {
+  const account = getCurrentAccount();
+  const res = await request({
+    method: 'GET',
+    url,
+    responseType: 'text',
+    headers: {
+      'User-Agent': navigator.userAgent,
+      Cookie: account?.cookieString || '',
+    },
+    proxyUrl: account?.proxyUrl,
+  });
+  if (res.status >= 400) {
+    throw new Error(`Response error: status=${res.status}, url=${url}`);
+  }
+  return res.body as string;
+}
+
+/**
+ * 从 x.com 首页及其主脚本中解析当前使用的 queryId 与 features，
+ * 只返回本应用用到的接口，网页中找不到开关值的 feature 沿用内置值
+ */
+export async function resolveGraphqlOperations(): Promise<
+  Partial<Record<GraphqlOperationName, GraphqlOperation>>
+> {
+  const html = await fetchText('https://x.com');
+  const scriptUrl = html.match(MAIN_SCRIPT_REGEX)?.[0];
+  if (!scriptUrl) throw new Error('Cannot find main script in x.com');
+
+  const featureValues: Record<string, boolean> = {};
+  for (const [, name, value] of html.matchAll(FEATURE_VALUE_REGEX)) {
+    featureValues[name] = value === 'true';
+  }
+
+  const script = await fetchText(scriptUrl);
+  const operations: Partial<Record<GraphqlOperationName, GraphqlOperation>> =
+    {};
+
+  for (const [, queryId, operationName, switches] of script.matchAll(
+    OPERATION_REGEX,
+  )) {
+    if (!isGraphqlOperationName(operationName)) continue;
+    const name = operationName;
+    const builtInFeatures = BUILT_IN_GRAPHQL_OPERATIONS[name].features;
+
+    const features = R.fromPairs(
+      switches
+        .split(',')
+        .map((item) => item.trim().replace(/^"|"$/g, ''))
+        .filter(Boolean)
+        .map((feature): [string, boolean] => [
+          feature,
+          featureValues[feature] ?? builtInFeatures[feature] ?? false,
+        ]),
+    );
+
+    operations[name] = {
+      queryId,
+      operationName,
+      features,
+    };
+  }
+
+  if (R.isEmpty(operations)) {
+    throw new Error('Cannot find any graphql operation in main script');
+  }
+
+  return operations;
+}
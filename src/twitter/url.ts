@@ -5,3 +5,35 @@ export function buildPostUrl(screenName: string, postId: string) {
 export function buildUserUrl(screenName: string) {
   return `https://twitter.com/${screenName}`;
 }
+
+export function buildListUrl(listId: string) {
+  return `https://twitter.com/i/lists/${listId}`;
+}
+
+const STATUS_URL_REGEX =
+  /^(?:https?:\/\/)?(?:(?:www|mobile)\.)?(?:x|twitter)\.com\/(?:i\/web|([^/?#]+))\/status(?:es)?\/(\d+)/i;
+
+/**
+ * 解析推文链接，支持 x.com、twitter.com 及其移动版
+ */
+export function parseStatusUrl(
+  url: string,
+): { screenName?: string; postId: string } | null {
+  const match = url.trim().match(STATUS_URL_REGEX);
+  if (!match) return null;
+  return {
+    screenName: match[1],
+    postId: match[2],
+  };
+}
+
+const LIST_URL_REGEX =
+  /^(?:https?:\/\/)?(?:(?:www|mobile)\.)?(?:x|twitter)\.com\/i\/lists\/(\d+)/i;
+
+/**
+ * 解析列表链接，返回列表 ID
+ */
+export function parseListUrl(url: string): string | null {
+  const match = url.trim().match(LIST_URL_REGEX);
+  return match ? match[1] : null;
+}
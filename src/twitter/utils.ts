@@ -1,19 +1,137 @@
+import dayjs from 'dayjs';
 import MediaType from '../enums/MediaType';
-import { TwitterMedia } from '../interfaces/TwitterMedia';
+import * as R from 'ramda';
+import { TwitterMedia, TwitterVideoVariant } from '../interfaces/TwitterMedia';
+import { VideoVariantPolicy } from '../interfaces/VideoVariantPolicy';
+import { PhotoPolicy, PhotoSize } from '../interfaces/PhotoPolicy';
+import { TwitterPost } from '../interfaces/TwitterPost';
+import { TwitterUser } from '../interfaces/TwitterUser';
 
-export function getDownloadUrl(media: TwitterMedia): string {
-  if (media.type === MediaType.Photo) {
-    if (!media.url) throw new Error('媒体没有下载链接');
-    const url = new URL(media.url);
-    url.searchParams.set('name', 'orig');
+const DEFAULT_VIDEO_VARIANT_POLICY: VideoVariantPolicy = {
+  type: 'highest',
+  maxResolution: 720,
+  contentType: 'video/mp4',
+};
+
+const DEFAULT_PHOTO_POLICY: PhotoPolicy = {
+  size: 'orig',
+  format: 'original',
+};
+
+/**
+ * 图片尺寸按画质从高到低排列，下载失败时依次退回下一个尺寸
+ */
+const PHOTO_SIZES: PhotoSize[] = ['orig', '4096x4096', 'large'];
+
+export const HLS_CONTENT_TYPE = 'application/x-mpegURL';
+
+/**
+ * 是否为 HLS（m3u8）播放列表，需要由 HLS 下载器下载
+ */
+export function isHlsVariant(variant: TwitterVideoVariant): boolean {
+  if (variant.contentType) return variant.contentType === HLS_CONTENT_TYPE;
+  return !!variant.url && new URL(variant.url).pathname.endsWith('.m3u8');
+}
+
+const byBitrate = (a: TwitterVideoVariant, b: TwitterVideoVariant) =>
+  (a.bitrate || 0) - (b.bitrate || 0);
+
+/**
+ * 按策略选择视频或 GIF 的清晰度，找不到符合条件的清晰度时退回最高画质
+ */
+export function selectVideoVariant(
+  variants: TwitterVideoVariant[],
+  policy: VideoVariantPolicy = DEFAULT_VIDEO_VARIANT_POLICY,
+): TwitterVideoVariant | undefined {
+  const available = variants.filter((v) => v.url);
+  // HLS 播放列表没有码率，只在指定格式时选择
+  const sorted = available.filter((v) => R.isNotNil(v.bitrate)).sort(byBitrate);
+  const highest = R.last(sorted) || R.head(available);
+
+  switch (policy.type) {
+    case 'lowest':
+      return R.head(sorted) || highest;
+    case 'maxResolution': {
+      const capped = sorted.filter((v) =>
+        v.width && v.height
+          ? Math.min(v.width, v.height) <= policy.maxResolution
+          : false,
+      );
+      return R.last(capped) || R.head(sorted) || highest;
+    }
+    case 'contentType': {
+      const matched = available
+        .filter((v) => v.contentType === policy.contentType)
+        .sort(byBitrate);
+      return R.last(matched) || highest;
+    }
+    default:
+      return highest;
+  }
+}
+
+/**
+ * 获取媒体实际下载的清晰度，照片没有清晰度
+ */
+export function getMediaVariant(
+  media: TwitterMedia,
+  policy?: VideoVariantPolicy,
+): TwitterVideoVariant | undefined {
+  if (media.type === MediaType.Photo) return undefined;
+
+  if (media.type === MediaType.Gif && !media.videoInfo?.variants) {
+    return media.videoInfo?.url ? { url: media.videoInfo.url } : undefined;
+  }
+
+  return selectVideoVariant(media.videoInfo?.variants || [], policy);
+}
+
+/**
+ * 获取图片实际下载的格式，保持原格式时从图片链接中解析
+ */
+export function getPhotoFormat(
+  media: TwitterMedia,
+  policy: PhotoPolicy = DEFAULT_PHOTO_POLICY,
+): string {
+  if (policy.format !== 'original') return policy.format;
+  if (!media.url) throw new Error('媒体没有下载链接');
+  const url = new URL(media.url);
+  return (
+    url.searchParams.get('format') || R.last(url.pathname.split('.')) || 'jpg'
+  );
+}
+
+/**
+ * 按策略生成图片的下载链接，第一个为首选尺寸，其余为依次降级的备选链接
+ */
+export function getPhotoDownloadUrls(
+  media: TwitterMedia,
+  policy: PhotoPolicy = DEFAULT_PHOTO_POLICY,
+): string[] {
+  if (!media.url) throw new Error('媒体没有下载链接');
+  const format = getPhotoFormat(media, policy);
+  const sizes = R.drop(PHOTO_SIZES.indexOf(policy.size), PHOTO_SIZES);
+
+  return sizes.map((size) => {
+    const url = new URL(media.url!);
+    url.pathname = url.pathname.replace(/\.\w+$/, '');
+    url.searchParams.set('format', format);
+    url.searchParams.set('name', size);
     return url.href;
+  });
+}
+
+export function getDownloadUrl(
+  media: TwitterMedia,
+  policy?: VideoVariantPolicy,
+  photoPolicy?: PhotoPolicy,
+): string {
+  if (media.type === MediaType.Photo) {
+    return getPhotoDownloadUrls(media, photoPolicy)[0];
   }
 
   if (media.type === MediaType.Video) {
-    const variant = media.videoInfo?.variants
-      ?.filter((i) => i.bitrate)
-      ?.sort((a, b) => (a.bitrate || 0) - (b.bitrate || 0))
-      ?.pop();
+    const variant = getMediaVariant(media, policy);
     if (!variant?.url) {
       throw new Error('视频没有下载链接');
     }
@@ -21,9 +139,71 @@ export function getDownloadUrl(media: TwitterMedia): string {
   }
 
   if (media.type === MediaType.Gif) {
-    if (!media.videoInfo?.url) throw new Error('Gif 没有下载链接');
-    return media.videoInfo?.url;
+    const variant = getMediaVariant(media, policy);
+    if (!variant?.url) throw new Error('Gif 没有下载链接');
+    return variant.url;
   }
 
   throw new Error(`无法获取该媒体类型的下载链接 ${media}`);
 }
+
+/**
+ * 比较两个推文 ID 的先后（ID 为递增的雪花 ID，超出了 Number 的安全范围）
+ */
+export function compareTwitterId(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  if (diff === 0n) return 0;
+  return diff > 0n ? 1 : -1;
+}
+
+/**
+ * 从持久化的 JSON 中恢复用户对象（还原日期字段）
+ */
+export function reviveTwitterUser(user: any): TwitterUser {
+  return {
+    ...user,
+    registerTime: user?.registerTime ? dayjs(user.registerTime) : undefined,
+  };
+}
+
+/**
+ * 从持久化的 JSON 中恢复推文对象（还原日期字段）
+ */
+export function reviveTwitterPost(post: any): TwitterPost {
+  return {
+    ...post,
+    createdAt: post?.createdAt ? dayjs(post.createdAt) : undefined,
+    user: reviveTwitterUser(post?.user),
+    retweetedPost: post?.retweetedPost
+      ? reviveTwitterPost(post.retweetedPost)
+      : undefined,
+    quotedPost: post?.quotedPost
+      ? reviveTwitterPost(post.quotedPost)
+      : undefined,
+  };
+}
+
+/**
+ * 获取推文中可下载的媒体，转推时为原推文的媒体，includeQuotes 时包含引用推文的媒体
+ */
+export function getPostMedias(
+  post: TwitterPost,
+  includeQuotes = false,
+): TwitterMedia[] {
+  const source = post.retweetedPost || post;
+  return (source.medias || []).concat(
+    includeQuotes ? source.quotedPost?.medias || [] : [],
+  );
+}
+
+/**
+ * 获取媒体所属的原推文，媒体属于推文本身时返回 undefined
+ */
+export function getMediaOrigin(
+  post: TwitterPost,
+  media: TwitterMedia,
+): TwitterPost | undefined {
+  const quoted = (post.retweetedPost || post).quotedPost;
+  if (quoted?.medias?.some((item) => item.id === media.id)) return quoted;
+  return post.retweetedPost;
+}
@@ -1,3 +1,4 @@
+import { fs, path } from '@tauri-apps/api';
 import { Child, Command } from '@tauri-apps/api/shell';
 import { EventEmitter } from './event';
 import * as R from 'ramda';
@@ -20,6 +21,22 @@ export interface AriaTask {
 
 export type AriaGid = string;
 
+/**
+ * 定时保存会话的间隔（秒），进程被强制结束时最多丢失这段时间内的变动
+ */
+const SAVE_SESSION_INTERVAL = 30;
+
+/**
+ * 会话文件的路径，用于重启后恢复未完成的任务（保留原有的 gid）
+ */
+async function resolveSessionPath() {
+  const dir = await path.appDataDir();
+  if (!(await fs.exists(dir))) {
+    await fs.createDir(dir, { recursive: true });
+  }
+  return await path.join(dir, 'aria2.session');
+}
+
 class Aria2 {
   #ready = false;
   get ready() {
@@ -57,12 +74,21 @@ class Aria2 {
     /**
      * 启动 Aria2c 子进程
      */
+    const sessionPath = await resolveSessionPath();
     const args = [
       '--enable-rpc',
       '--rpc-secret',
       this.#secret,
       '--rpc-listen-port',
       this.#port.toString(),
+      // 重启后重新添加的任务根据 .aria2 控制文件断点续传
+      '--continue=true',
+      `--save-session=${sessionPath}`,
+      `--save-session-interval=${SAVE_SESSION_INTERVAL}`,
+      // 会话文件不存在时 Aria2 会启动失败
+      ...((await fs.exists(sessionPath))
+        ? [`--input-file=${sessionPath}`]
+        : []),
     ];
     this.#command = Command.sidecar('binaries/aria2c', args);
     this.#log.info('Spawn with args:', args);
@@ -190,6 +216,14 @@ class Aria2 {
     await this.invoke('aria2.changeGlobalOption', this.#globalOptions);
   }
 
+  /**
+   * 立即保存会话，退出前调用，未启动时忽略
+   */
+  async saveSession() {
+    if (!this.ready) return;
+    await this.invoke('aria2.saveSession');
+  }
+
   ensureReady() {
     if (!this.ready) throw new Error('Aria2 is not ready yet');
   }
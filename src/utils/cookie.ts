@@ -12,3 +12,122 @@ export function parseCookie(cookieString: string): Record<string, string> {
 export function stringifyCookie(cookie: Record<string, string>): string {
   return R.pipe(R.toPairs, R.map(R.join('=')), R.join(';'))(cookie);
 }
+
+const TWITTER_COOKIE_DOMAINS = ['x.com', 'twitter.com'];
+
+/**
+ * 登录所必需的 Cookie
+ */
+export const REQUIRED_TWITTER_COOKIES = ['auth_token', 'ct0'];
+
+interface ImportedCookie {
+  domain?: string;
+  name: string;
+  value: string;
+}
+
+/**
+ * 返回 Cookie 所属的推特域名在 TWITTER_COOKIE_DOMAINS 中的序号，越小越优先，
+ * 不是推特的 Cookie 时返回 -1
+ */
+function getTwitterDomainIndex(domain?: string): number {
+  // 没有域名信息（如 Cookie 请求头）时视为 x.com 的 Cookie
+  if (!domain) return 0;
+  const host = domain.trim().toLowerCase().replace(/^\./, '');
+  return TWITTER_COOKIE_DOMAINS.findIndex(
+    (item) => host === item || host.endsWith(`.${item}`),
+  );
+}
+
+/**
+ * 解析浏览器扩展导出的 JSON 数组，如 EditThisCookie、Cookie-Editor
+ */
+function parseJsonCookies(text: string): ImportedCookie[] {
+  const data = JSON.parse(text);
+  const list: any[] = Array.isArray(data) ? data : data?.cookies;
+  if (!Array.isArray(list)) throw new Error('无法识别的 JSON 格式');
+
+  return list
+    .filter((item) => typeof item?.name === 'string')
+    .map((item) => ({
+      domain: item.domain,
+      name: item.name,
+      value: String(item.value ?? ''),
+    }));
+}
+
+/**
+ * 解析 Netscape 格式的 cookies.txt，每行以 Tab 分隔：
+ * domain, includeSubdomains, path, secure, expires, name, value
+ */
+function parseNetscapeCookies(text: string): ImportedCookie[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^#HttpOnly_/, ''))
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .map((line) => line.split('\t'))
+    .filter((fields) => fields.length >= 7)
+    .map((fields) => ({
+      domain: fields[0],
+      name: fields[5],
+      value: fields[6].trim(),
+    }));
+}
+
+/**
+ * 解析请求头格式，如：Cookie: auth_token=xxx; ct0=xxx
+ */
+function parseHeaderCookies(text: string): ImportedCookie[] {
+  return text
+    .trim()
+    .replace(/^cookie:\s*/i, '')
+    .split(';')
+    .map((item) => item.trim())
+    .filter((item) => item.includes('='))
+    .map((item) => {
+      const index = item.indexOf('=');
+      return {
+        name: item.slice(0, index).trim(),
+        value: item.slice(index + 1).trim(),
+      };
+    });
+}
+
+/**
+ * 从导入的文本中解析推特的 Cookie，支持 Netscape cookies.txt、
+ * 浏览器扩展导出的 JSON 数组与 Cookie 请求头，只保留 x.com 与 twitter.com 的 Cookie
+ */
+export function parseImportedCookies(text: string): Record<string, string> {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('导入内容为空');
+
+  let cookies: ImportedCookie[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    cookies = parseJsonCookies(trimmed);
+  } else if (trimmed.includes('\t')) {
+    cookies = parseNetscapeCookies(trimmed);
+  } else {
+    cookies = parseHeaderCookies(trimmed);
+  }
+
+  // 同名 Cookie 优先使用 x.com 的，旧的 twitter.com Cookie 可能已经失效。
+  // fromPairs 保留最后一个，因此按优先级从低到高排列
+  const pairs = cookies
+    .map((cookie) => ({
+      cookie,
+      index: getTwitterDomainIndex(cookie.domain),
+    }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => b.index - a.index)
+    .map(({ cookie }): [string, string] => [cookie.name, cookie.value]);
+  return R.fromPairs(pairs);
+}
+
+/**
+ * 返回缺少的必需 Cookie 名称
+ */
+export function getMissingTwitterCookies(
+  cookies: Record<string, string>,
+): string[] {
+  return REQUIRED_TWITTER_COOKIES.filter((name) => !cookies[name]);
+}
@@ -0,0 +1,85 @@
+export interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * 使用 PBKDF2 从密码派生 AES-GCM 密钥
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptJson(
+  key: CryptoKey,
+  value: any,
+): Promise<EncryptedValue> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return {
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(data)),
+  };
+}
+
+/**
+ * 解密失败（密码错误或数据损坏）时抛出错误
+ */
+export async function decryptJson<T = any>(
+  key: CryptoKey,
+  value: EncryptedValue,
+): Promise<T> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(value.iv) },
+    key,
+    base64ToBytes(value.data),
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * 计算内容的 SHA-256，返回十六进制字符串
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join(
+    '',
+  );
+}
@@ -0,0 +1,227 @@
+import MediaType from '../enums/MediaType';
+import { DownloadFilter, MediaOrientation } from '../interfaces/DownloadFilter';
+import { SkipReason } from '../interfaces/SkipReason';
+import { TwitterMedia } from '../interfaces/TwitterMedia';
+import { TwitterPost } from '../interfaces/TwitterPost';
+
+type FilterCheck<T> = [
+  reason: SkipReason,
+  pass: (item: T, filter: DownloadFilter) => boolean,
+];
+
+/**
+ * 宽高比与 1 相差不超过该值时视为正方形
+ */
+const SQUARE_TOLERANCE = 0.02;
+
+/**
+ * 未设置下限或数值未知时不过滤
+ */
+function isAtLeast(value: number | undefined, min: number | undefined) {
+  if (!min || value === undefined) return true;
+  return value >= min;
+}
+
+function getMediaSize(media: TwitterMedia) {
+  if (media.width && media.height) {
+    return { width: media.width, height: media.height };
+  }
+  const aspectRatio =
+    media.type !== MediaType.Photo ? media.videoInfo?.aspectRatio : undefined;
+  if (aspectRatio) {
+    return { width: aspectRatio[0], height: aspectRatio[1] };
+  }
+}
+
+export function getMediaOrientation(
+  media: TwitterMedia,
+): MediaOrientation | undefined {
+  const size = getMediaSize(media);
+  if (!size) return;
+  const ratio = size.width / size.height;
+  if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return 'square';
+  return ratio > 1 ? 'landscape' : 'portrait';
+}
+
+interface KeywordMatchers {
+  include?: RegExp;
+  exclude?: RegExp;
+}
+
+const keywordMatchersCache = new WeakMap<DownloadFilter, KeywordMatchers>();
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildKeywordRegExp(
+  keywords: string[] | undefined,
+  filter: DownloadFilter,
+): RegExp | undefined {
+  const sources = (keywords || [])
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .map((keyword) => (filter.keywordRegex ? keyword : escapeRegExp(keyword)));
+  if (sources.length === 0) return;
+
+  let pattern = sources.map((source) => `(?:${source})`).join('|');
+  // 只用于判断是否匹配，前面的边界字符可以直接匹配进去，不必使用后行断言
+  if (filter.keywordWholeWord) {
+    pattern = `(?:^|[^\\p{L}\\p{N}_])(?:${pattern})(?![\\p{L}\\p{N}_])`;
+  }
+  try {
+    return new RegExp(pattern, filter.keywordCaseSensitive ? 'u' : 'iu');
+  } catch (err: any) {
+    throw new Error(`关键词正则表达式有误：${err?.message}`);
+  }
+}
+
+/**
+ * 编译关键词过滤条件，同一个下载配置只编译一次，正则表达式有误时抛出错误
+ */
+function getKeywordMatchers(filter: DownloadFilter): KeywordMatchers {
+  let matchers = keywordMatchersCache.get(filter);
+  if (!matchers) {
+    matchers = {
+      include: buildKeywordRegExp(filter.includeKeywords, filter),
+      exclude: buildKeywordRegExp(filter.excludeKeywords, filter),
+    };
+    keywordMatchersCache.set(filter, matchers);
+  }
+  return matchers;
+}
+
+/**
+ * 关键词匹配的文本，包含正文与带 # 的话题标签
+ */
+function getPostText(post: TwitterPost) {
+  return [post.fullText, ...(post.tags || []).map((tag) => `#${tag}`)]
+    .filter(Boolean)
+    .join('\n');
+}
+
+const KEYWORD_CHECKS: FilterCheck<TwitterPost>[] = [
+  [
+    'keywordInclude',
+    (post, filter) => {
+      const { include } = getKeywordMatchers(filter);
+      return !include || include.test(getPostText(post));
+    },
+  ],
+  [
+    'keywordExclude',
+    (post, filter) => {
+      const { exclude } = getKeywordMatchers(filter);
+      return !exclude || !exclude.test(getPostText(post));
+    },
+  ],
+];
+
+const POST_CHECKS: FilterCheck<TwitterPost>[] = [
+  ...KEYWORD_CHECKS,
+  [
+    'favoriteCount',
+    (post, filter) => isAtLeast(post.favoriteCount, filter.minFavoriteCount),
+  ],
+  [
+    'retweetCount',
+    (post, filter) => isAtLeast(post.retweetCount, filter.minRetweetCount),
+  ],
+  ['views', (post, filter) => isAtLeast(post.views, filter.minViews)],
+  [
+    'sensitive',
+    (post, filter) => {
+      if (!filter.sensitive) return true;
+      return !!post.possiblySensitive === (filter.sensitive === 'only');
+    },
+  ],
+  [
+    'lang',
+    (post, filter) => {
+      if (!filter.langs?.length) return true;
+      return !!post.lang && filter.langs.includes(post.lang);
+    },
+  ],
+];
+
+const MEDIA_CHECKS: FilterCheck<TwitterMedia>[] = [
+  ['mediaType', (media, filter) => !!filter.mediaTypes?.includes(media.type)],
+  [
+    'resolution',
+    (media, filter) => {
+      if (!media.width || !media.height) return true;
+      return (
+        isAtLeast(media.width, filter.minWidth) &&
+        isAtLeast(media.height, filter.minHeight) &&
+        isAtLeast((media.width * media.height) / 1e6, filter.minMegapixels)
+      );
+    },
+  ],
+  [
+    'duration',
+    (media, filter) => {
+      if (media.type !== MediaType.Video || !media.videoInfo?.duration) {
+        return true;
+      }
+      const seconds = media.videoInfo.duration / 1000;
+      return (
+        isAtLeast(seconds, filter.minDuration) &&
+        (!filter.maxDuration || seconds <= filter.maxDuration)
+      );
+    },
+  ],
+  [
+    'orientation',
+    (media, filter) => {
+      if (!filter.orientations?.length) return true;
+      const orientation = getMediaOrientation(media);
+      return !orientation || filter.orientations.includes(orientation);
+    },
+  ],
+];
+
+/**
+ * 检查关键词过滤条件，有误时返回错误信息
+ */
+export function validateKeywordFilter(
+  filter: DownloadFilter,
+): string | undefined {
+  try {
+    getKeywordMatchers(filter);
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+/**
+ * 只按关键词过滤，用于主页预览，转推按原推文的正文判断
+ */
+export function getKeywordSkipReason(
+  post: TwitterPost,
+  filter: DownloadFilter,
+): SkipReason | undefined {
+  const target = post.retweetedPost || post;
+  return KEYWORD_CHECKS.find(([, pass]) => !pass(target, filter))?.[0];
+}
+
+/**
+ * 返回推文被下载配置过滤的原因，通过时返回 undefined。
+ * 转推按原推文的互动数据、敏感标记与语言判断
+ */
+export function getPostSkipReason(
+  post: TwitterPost,
+  filter: DownloadFilter,
+): SkipReason | undefined {
+  const target = post.retweetedPost || post;
+  return POST_CHECKS.find(([, pass]) => !pass(target, filter))?.[0];
+}
+
+/**
+ * 返回媒体被下载配置过滤的原因，通过时返回 undefined
+ */
+export function getMediaSkipReason(
+  media: TwitterMedia,
+  filter: DownloadFilter,
+): SkipReason | undefined {
+  return MEDIA_CHECKS.find(([, pass]) => !pass(media, filter))?.[0];
+}
@@ -0,0 +1,530 @@
+import {
+  FILTER_EXPRESSION_FIELDS,
+  FILTER_EXPRESSION_KEYWORDS,
+} from '../constants/filter-expression';
+import { FilterExpressionError } from '../errors/FilterExpressionError';
+import {
+  FilterExpressionContext,
+  FilterExpressionField,
+  FilterExpressionValue,
+  FilterExpressionValueType,
+} from '../interfaces/FilterExpressionField';
+
+/**
+ * 过滤表达式，例如：
+ * ((type == "video" and duration > 30) or (type == "photo" and likes > 1000)) and not sensitive
+ *
+ * 支持 and、or、not（也可写作 &&、||、!）与括号，比较运算 == != > >= < <=，
+ * 字符串运算 contains、matches（正则，不区分大小写）、in ["ja", "zh"]。
+ * 字段数据缺失时比较结果为假
+ */
+
+type TokenType =
+  | 'number'
+  | 'string'
+  | 'ident'
+  | 'op'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type Evaluate = (
+  ctx: FilterExpressionContext,
+) => FilterExpressionValue | undefined;
+
+interface CompiledNode {
+  type: FilterExpressionValueType;
+  position: number;
+  evaluate: Evaluate;
+}
+
+const PUNCTUATIONS: Record<string, TokenType> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '[': 'lbracket',
+  ']': 'rbracket',
+  ',': 'comma',
+};
+
+const COMPARE_OPERATORS = ['==', '!=', '>', '>=', '<', '<='];
+
+const TYPE_NAMES: Record<FilterExpressionValueType, string> = {
+  number: '数字',
+  string: '字符串',
+  boolean: '真假值',
+  list: '列表',
+};
+
+function readString(source: string, start: number): [string, number] {
+  const quote = source[start];
+  let value = '';
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === '\\' && i + 1 < source.length) i++;
+    value += source[i];
+    i++;
+  }
+  if (i >= source.length) {
+    throw new FilterExpressionError('字符串缺少结束引号', start);
+  }
+  return [value, i + 1];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+    let match: RegExpExecArray | null;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ((match = /^\d+(\.\d+)?/.exec(rest))) {
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+    } else if ((match = /^[A-Za-z_]\w*/.exec(rest))) {
+      tokens.push({ type: 'ident', value: match[0], position: i });
+      i += match[0].length;
+    } else if ((match = /^(==|!=|>=|<=|&&|\|\||[<>!=])/.exec(rest))) {
+      // 单个 = 视为 ==
+      const value = match[0] === '=' ? '==' : match[0];
+      tokens.push({ type: 'op', value, position: i });
+      i += match[0].length;
+    } else if (PUNCTUATIONS[char]) {
+      tokens.push({ type: PUNCTUATIONS[char], value: char, position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const [value, end] = readString(source, i);
+      tokens.push({ type: 'string', value, position: i });
+      i = end;
+    } else {
+      throw new FilterExpressionError(`无法识别的字符“${char}”`, i);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * 字段表是普通对象，需排除 constructor 等继承的属性
+ */
+function getField(name: string): FilterExpressionField | undefined {
+  return Object.prototype.hasOwnProperty.call(FILTER_EXPRESSION_FIELDS, name)
+    ? FILTER_EXPRESSION_FIELDS[name]
+    : undefined;
+}
+
+function toLowerCase(value: FilterExpressionValue) {
+  return String(value).toLowerCase();
+}
+
+function literal(
+  type: FilterExpressionValueType,
+  value: FilterExpressionValue,
+  position: number,
+): CompiledNode {
+  return { type, position, evaluate: () => value };
+}
+
+class Parser {
+  #tokens: Token[];
+  #index = 0;
+
+  constructor(source: string) {
+    this.#tokens = tokenize(source);
+  }
+
+  get #current() {
+    return this.#tokens[this.#index];
+  }
+
+  #next() {
+    return this.#tokens[this.#index++];
+  }
+
+  #isKeyword(token: Token, ...keywords: string[]) {
+    return (
+      (token.type === 'ident' &&
+        keywords.includes(token.value.toLowerCase())) ||
+      (token.type === 'op' && keywords.includes(token.value))
+    );
+  }
+
+  #expect(type: TokenType, desc: string) {
+    const token = this.#current;
+    if (token.type !== type) {
+      throw new FilterExpressionError(`此处应为${desc}`, token.position);
+    }
+    return this.#next();
+  }
+
+  #requireType(
+    node: CompiledNode,
+    types: FilterExpressionValueType[],
+    desc: string,
+  ) {
+    if (!types.includes(node.type)) {
+      throw new FilterExpressionError(
+        `${desc}需要${types.map((type) => TYPE_NAMES[type]).join('或')}，实际为${TYPE_NAMES[node.type]}`,
+        node.position,
+      );
+    }
+  }
+
+  parse(): CompiledNode {
+    const node = this.#parseOr();
+    if (this.#current.type !== 'eof') {
+      throw new FilterExpressionError(
+        `多余的内容“${this.#current.value}”`,
+        this.#current.position,
+      );
+    }
+    this.#requireType(node, ['boolean'], '表达式的结果');
+    return node;
+  }
+
+  #parseLogical(
+    keywords: string[],
+    parseOperand: () => CompiledNode,
+    combine: (left: boolean, right: () => boolean) => boolean,
+  ): CompiledNode {
+    let left = parseOperand();
+    while (this.#isKeyword(this.#current, ...keywords)) {
+      const operator = this.#next();
+      const right = parseOperand();
+      this.#requireType(left, ['boolean'], `${operator.value} 的左侧`);
+      this.#requireType(right, ['boolean'], `${operator.value} 的右侧`);
+      const [evaluateLeft, evaluateRight] = [left.evaluate, right.evaluate];
+      left = {
+        type: 'boolean',
+        position: left.position,
+        evaluate: (ctx) =>
+          combine(!!evaluateLeft(ctx), () => !!evaluateRight(ctx)),
+      };
+    }
+    return left;
+  }
+
+  #parseOr(): CompiledNode {
+    return this.#parseLogical(
+      ['or', '||'],
+      () => this.#parseAnd(),
+      (left, right) => left || right(),
+    );
+  }
+
+  #parseAnd(): CompiledNode {
+    return this.#parseLogical(
+      ['and', '&&'],
+      () => this.#parseNot(),
+      (left, right) => left && right(),
+    );
+  }
+
+  #parseNot(): CompiledNode {
+    if (!this.#isKeyword(this.#current, 'not', '!')) {
+      return this.#parseComparison();
+    }
+    const operator = this.#next();
+    const operand = this.#parseNot();
+    this.#requireType(operand, ['boolean'], `${operator.value} 的操作数`);
+    return {
+      type: 'boolean',
+      position: operator.position,
+      evaluate: (ctx) => !operand.evaluate(ctx),
+    };
+  }
+
+  #parseComparison(): CompiledNode {
+    const left = this.#parsePrimary();
+    const token = this.#current;
+
+    if (token.type === 'op' && COMPARE_OPERATORS.includes(token.value)) {
+      this.#next();
+      return this.#compare(token.value, left, this.#parsePrimary());
+    }
+    if (this.#isKeyword(token, 'contains')) {
+      this.#next();
+      return this.#contains(left, this.#parsePrimary());
+    }
+    if (this.#isKeyword(token, 'matches')) {
+      this.#next();
+      return this.#matches(left, this.#expect('string', '正则表达式字符串'));
+    }
+    if (this.#isKeyword(token, 'in')) {
+      this.#next();
+      return this.#in(left, this.#parsePrimary());
+    }
+    return left;
+  }
+
+  #compare(
+    operator: string,
+    left: CompiledNode,
+    right: CompiledNode,
+  ): CompiledNode {
+    const isEquality = operator === '==' || operator === '!=';
+    this.#requireType(
+      left,
+      isEquality ? ['number', 'string', 'boolean'] : ['number', 'string'],
+      `${operator} 的左侧`,
+    );
+    if (left.type !== right.type) {
+      throw new FilterExpressionError(
+        `${operator} 两侧的类型不一致：${TYPE_NAMES[left.type]}与${TYPE_NAMES[right.type]}`,
+        right.position,
+      );
+    }
+
+    const test = {
+      '==': (a: any, b: any) => a === b,
+      '!=': (a: any, b: any) => a !== b,
+      '>': (a: any, b: any) => a > b,
+      '>=': (a: any, b: any) => a >= b,
+      '<': (a: any, b: any) => a < b,
+      '<=': (a: any, b: any) => a <= b,
+    }[operator]!;
+    // 字符串的相等比较不区分大小写，如 type == "Video"
+    const normalize =
+      left.type === 'string' && isEquality
+        ? toLowerCase
+        : (value: FilterExpressionValue) => value;
+
+    return {
+      type: 'boolean',
+      position: left.position,
+      evaluate: (ctx) => {
+        const a = left.evaluate(ctx);
+        const b = right.evaluate(ctx);
+        if (a === undefined || b === undefined) return false;
+        return test(normalize(a), normalize(b));
+      },
+    };
+  }
+
+  #contains(left: CompiledNode, right: CompiledNode): CompiledNode {
+    this.#requireType(left, ['string', 'list'], 'contains 的左侧');
+    this.#requireType(right, ['string'], 'contains 的右侧');
+    return {
+      type: 'boolean',
+      position: left.position,
+      evaluate: (ctx) => {
+        const a = left.evaluate(ctx);
+        const b = right.evaluate(ctx);
+        if (a === undefined || b === undefined) return false;
+        const keyword = toLowerCase(b);
+        return Array.isArray(a)
+          ? a.some((item) => toLowerCase(item) === keyword)
+          : toLowerCase(a).includes(keyword);
+      },
+    };
+  }
+
+  #matches(left: CompiledNode, pattern: Token): CompiledNode {
+    this.#requireType(left, ['string'], 'matches 的左侧');
+    let regExp: RegExp;
+    try {
+      regExp = new RegExp(pattern.value, 'i');
+    } catch (err: any) {
+      throw new FilterExpressionError(
+        `正则表达式有误：${err?.message}`,
+        pattern.position,
+      );
+    }
+    return {
+      type: 'boolean',
+      position: left.position,
+      evaluate: (ctx) => {
+        const value = left.evaluate(ctx);
+        return value !== undefined && regExp.test(String(value));
+      },
+    };
+  }
+
+  #in(left: CompiledNode, right: CompiledNode): CompiledNode {
+    this.#requireType(left, ['string', 'number'], 'in 的左侧');
+    this.#requireType(right, ['list'], 'in 的右侧');
+    return {
+      type: 'boolean',
+      position: left.position,
+      evaluate: (ctx) => {
+        const value = left.evaluate(ctx);
+        const list = right.evaluate(ctx) as string[];
+        return (
+          value !== undefined &&
+          list.some((item) => toLowerCase(item) === toLowerCase(value))
+        );
+      },
+    };
+  }
+
+  #parseList(start: Token): CompiledNode {
+    const items: string[] = [];
+    while (this.#current.type !== 'rbracket') {
+      const token = this.#current;
+      if (token.type !== 'string' && token.type !== 'number') {
+        throw new FilterExpressionError(
+          '列表中只能包含字符串或数字',
+          token.position,
+        );
+      }
+      items.push(this.#next().value);
+      if (this.#current.type !== 'comma') break;
+      this.#next();
+    }
+    this.#expect('rbracket', '“]”');
+    return literal('list', items, start.position);
+  }
+
+  #parsePrimary(): CompiledNode {
+    const token = this.#next();
+
+    switch (token.type) {
+      case 'number':
+        return literal('number', Number(token.value), token.position);
+      case 'string':
+        return literal('string', token.value, token.position);
+      case 'lbracket':
+        return this.#parseList(token);
+      case 'lparen': {
+        const node = this.#parseOr();
+        this.#expect('rparen', '“)”');
+        return node;
+      }
+      case 'ident': {
+        const name = token.value.toLowerCase();
+        if (name === 'true' || name === 'false') {
+          return literal('boolean', name === 'true', token.position);
+        }
+        const field = getField(name);
+        if (field) {
+          return {
+            type: field.type,
+            position: token.position,
+            evaluate: field.get,
+          };
+        }
+        if (FILTER_EXPRESSION_KEYWORDS.includes(name)) break;
+        throw new FilterExpressionError(
+          `未知字段“${token.value}”`,
+          token.position,
+        );
+      }
+    }
+
+    throw new FilterExpressionError(
+      token.type === 'eof' ? '表达式不完整' : `此处不能使用“${token.value}”`,
+      token.position,
+    );
+  }
+}
+
+/**
+ * 编译过滤表达式，表达式为空时返回 undefined，有误时抛出 FilterExpressionError
+ */
+export function compileFilterExpression(
+  source: string | undefined,
+): ((ctx: FilterExpressionContext) => boolean) | undefined {
+  if (!source?.trim()) return;
+  const { evaluate } = new Parser(source).parse();
+  return (ctx) => !!evaluate(ctx);
+}
+
+/**
+ * 检查过滤表达式，有误时返回错误信息
+ */
+export function validateFilterExpression(
+  source: string | undefined,
+): string | undefined {
+  try {
+    compileFilterExpression(source);
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+export interface FilterExpressionSuggestion {
+  /**
+   * 补全后的完整表达式
+   */
+  value: string;
+  label: string;
+  desc?: string;
+}
+
+const OPERATOR_SUGGESTIONS: Record<FilterExpressionValueType, string[]> = {
+  number: ['>', '>=', '<', '<=', '==', '!='],
+  string: ['==', '!=', 'contains', 'matches', 'in'],
+  list: ['contains'],
+  boolean: ['and', 'or'],
+};
+
+/**
+ * 根据光标前的内容给出补全建议：需要操作数时提示字段，字段后提示可用的运算符
+ */
+export function getFilterExpressionSuggestions(
+  source: string,
+): FilterExpressionSuggestion[] {
+  const prefix = /[A-Za-z_]\w*$/.exec(source)?.[0] || '';
+  const before = source.slice(0, source.length - prefix.length);
+
+  let previous: Token | undefined;
+  try {
+    const tokens = tokenize(before);
+    previous = tokens[tokens.length - 2];
+  } catch {
+    return [];
+  }
+
+  const previousField =
+    previous?.type === 'ident'
+      ? getField(previous.value.toLowerCase())
+      : undefined;
+  // 未知字段之后无法判断应输入什么，不给出建议
+  if (
+    previous?.type === 'ident' &&
+    !previousField &&
+    !FILTER_EXPRESSION_KEYWORDS.includes(previous.value.toLowerCase())
+  ) {
+    return [];
+  }
+  const afterOperand =
+    !!previousField ||
+    (!!previous &&
+      ['number', 'string', 'rparen', 'rbracket'].includes(previous.type)) ||
+    (previous?.type === 'ident' &&
+      ['true', 'false'].includes(previous.value.toLowerCase()));
+
+  const candidates: Omit<FilterExpressionSuggestion, 'value'>[] = afterOperand
+    ? (previousField
+        ? OPERATOR_SUGGESTIONS[previousField.type]
+        : OPERATOR_SUGGESTIONS.boolean
+      ).map((label) => ({ label }))
+    : [
+        ...Object.entries(FILTER_EXPRESSION_FIELDS).map(([label, field]) => ({
+          label,
+          desc: field.desc,
+        })),
+        { label: 'not', desc: '取反' },
+      ];
+
+  const separator = before && !/[\s(!]$/.test(before) ? ' ' : '';
+  return candidates
+    .filter(({ label }) => label.startsWith(prefix.toLowerCase()))
+    .map((candidate) => ({
+      ...candidate,
+      value: `${before}${separator}${candidate.label} `,
+    }));
+}
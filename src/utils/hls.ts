@@ -0,0 +1,330 @@
+import { fs, path } from '@tauri-apps/api';
+import { nanoid } from 'nanoid';
+import { request } from '../ipc/network';
+import { ResponseError } from '../errors/ResponseError';
+import { TwitterVideoVariant } from '../interfaces/TwitterMedia';
+import { VideoVariantPolicy } from '../interfaces/VideoVariantPolicy';
+import { selectVideoVariant } from '../twitter/utils';
+import { AriaStatus, AriaTask } from './aria2';
+import { EventEmitter } from './event';
+import {
+  M3u8MediaPlaylist,
+  isMasterPlaylist,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+} from './m3u8';
+import { concatBytes, mergeInitSegments, pickFragments } from './mp4';
+
+const MAX_CONCURRENT_DOWNLOADS = 2;
+
+interface HlsPlan {
+  video: M3u8MediaPlaylist;
+  audio?: M3u8MediaPlaylist;
+  audioTrackId?: number;
+}
+
+interface HlsJob {
+  gid: string;
+  url: string;
+  dir: string;
+  out: string;
+  policy?: VideoVariantPolicy;
+  overwrite: boolean;
+  status: AriaStatus;
+  running: boolean;
+  completedLength: number;
+  totalLength: number;
+  errorMessage?: string;
+  plan?: HlsPlan;
+  /**
+   * 下一个要写入的分片，暂停后从这里继续。
+   * 分片先写入 <out>.part，全部完成后再改为最终的文件名
+   */
+  nextIndex: number;
+}
+
+export interface HlsAddOptions {
+  dir: string;
+  out: string;
+  policy?: VideoVariantPolicy;
+  paused?: boolean;
+  /**
+   * 是否覆盖同名文件，否则与 Aria2 一样自动重命名（如 a.1.mp4）
+   */
+  overwrite?: boolean;
+}
+
+async function fetchBinary(url: string): Promise<Uint8Array> {
+  const res = await request({ method: 'GET', url, responseType: 'binary' });
+  if (res.status < 200 || res.status >= 300) {
+    throw new ResponseError(res.status);
+  }
+  return new Uint8Array(res.body);
+}
+
+async function fetchText(url: string): Promise<string> {
+  const res = await request({ method: 'GET', url, responseType: 'text' });
+  if (res.status < 200 || res.status >= 300) {
+    throw new ResponseError(res.status);
+  }
+  return res.body;
+}
+
+/**
+ * TS 分片没有初始化分片，可以直接拼接为 .ts 文件
+ */
+const isTsPlan = (plan: HlsPlan) => !plan.video.initUrl;
+
+function splitExtension(fileName: string): [string, string] {
+  const index = fileName.lastIndexOf('.');
+  if (index <= 0) return [fileName, ''];
+  return [fileName.slice(0, index), fileName.slice(index)];
+}
+
+async function fetchMediaPlaylist(url: string): Promise<M3u8MediaPlaylist> {
+  return parseMediaPlaylist(await fetchText(url), url);
+}
+
+/**
+ * HLS（m3u8）下载器，按视频清晰度策略选择清晰度，通过代理下载各分片并合并为 MP4。
+ * 状态的结构与 Aria2 保持一致，方便下载列表统一处理
+ */
+class HlsDownloader {
+  #jobs = new Map<string, HlsJob>();
+  #log?: ICategoriedLogger;
+
+  onDownloadStart = new EventEmitter<string>();
+  onDownloadPause = new EventEmitter<string>();
+  onDownloadStop = new EventEmitter<string>();
+  onDownloadComplete = new EventEmitter<string>();
+  onDownloadError = new EventEmitter<string>();
+
+  get #logger() {
+    if (!this.#log) this.#log = log.category('HLS');
+    return this.#log;
+  }
+
+  has(gid: string) {
+    return this.#jobs.has(gid);
+  }
+
+  add(url: string, options: HlsAddOptions): string {
+    const gid = `hls-${nanoid()}`;
+    this.#jobs.set(gid, {
+      gid,
+      url,
+      dir: options.dir,
+      out: options.out,
+      policy: options.policy,
+      overwrite: !!options.overwrite,
+      status: options.paused ? AriaStatus.Paused : AriaStatus.Waiting,
+      running: false,
+      completedLength: 0,
+      totalLength: 0,
+      nextIndex: 0,
+    });
+    this.#schedule();
+    return gid;
+  }
+
+  pause(gid: string) {
+    const job = this.#jobs.get(gid);
+    if (!job) return;
+    if (job.status !== AriaStatus.Active && job.status !== AriaStatus.Waiting)
+      return;
+    job.status = AriaStatus.Paused;
+    this.onDownloadPause.emit(gid);
+  }
+
+  pauseAll() {
+    this.#jobs.forEach((job) => this.pause(job.gid));
+  }
+
+  unpause(gid: string) {
+    const job = this.#jobs.get(gid);
+    if (!job || job.status !== AriaStatus.Paused) return;
+    job.status = AriaStatus.Waiting;
+    this.#schedule();
+  }
+
+  unpauseAll() {
+    this.#jobs.forEach((job) => this.unpause(job.gid));
+  }
+
+  remove(gid: string) {
+    const job = this.#jobs.get(gid);
+    if (!job) return;
+    job.status = AriaStatus.Removed;
+    this.#jobs.delete(gid);
+    this.onDownloadStop.emit(gid);
+    this.#schedule();
+  }
+
+  async tellStatus(gid: string): Promise<AriaTask> {
+    const job = this.#jobs.get(gid);
+    if (!job) throw new Error(`HLS 任务 ${gid} 不存在`);
+    return {
+      gid,
+      status: job.status,
+      completedLength: job.completedLength.toString(),
+      totalLength: job.totalLength.toString(),
+      files: [{ path: await path.join(job.dir, job.out) }],
+      dir: job.dir,
+      errorMessage: job.errorMessage,
+    };
+  }
+
+  #schedule() {
+    const jobs = Array.from(this.#jobs.values());
+    let runningCount = jobs.filter((job) => job.running).length;
+
+    for (const job of jobs) {
+      if (runningCount >= MAX_CONCURRENT_DOWNLOADS) break;
+      if (job.running || job.status !== AriaStatus.Waiting) continue;
+      runningCount++;
+      this.#run(job);
+    }
+  }
+
+  async #resolvePlan(job: HlsJob): Promise<HlsPlan> {
+    const text = await fetchText(job.url);
+    if (!isMasterPlaylist(text)) {
+      return { video: parseMediaPlaylist(text, job.url) };
+    }
+
+    const { renditions, audioTracks } = parseMasterPlaylist(text, job.url);
+    const variants: TwitterVideoVariant[] = renditions.map((r) => ({
+      bitrate: r.bandwidth,
+      contentType: 'video/mp4',
+      url: r.url,
+      width: r.width,
+      height: r.height,
+    }));
+    const selected = selectVideoVariant(variants, job.policy);
+    const rendition = renditions.find((r) => r.url === selected?.url);
+    if (!rendition) throw new Error('播放列表中没有可下载的清晰度');
+    this.#logger.info('Selected rendition', rendition);
+
+    const audioTrack = audioTracks.find(
+      (track) => track.groupId === rendition.audioGroupId,
+    );
+
+    return {
+      video: await fetchMediaPlaylist(rendition.url),
+      audio: audioTrack ? await fetchMediaPlaylist(audioTrack.url) : undefined,
+    };
+  }
+
+  /**
+   * 下载完成时确定保存的文件名：TS 分片保存为 .ts 文件，不覆盖时按 Aria2 的规则给同名文件编号
+   */
+  async #resolveOut(job: HlsJob, plan: HlsPlan): Promise<string> {
+    const [name, originalExt] = splitExtension(job.out);
+    const ext = isTsPlan(plan) ? '.ts' : originalExt;
+    let out = `${name}${ext}`;
+    if (job.overwrite) return out;
+
+    for (let i = 1; await fs.exists(await path.join(job.dir, out)); i++) {
+      out = `${name}.${i}${ext}`;
+    }
+    return out;
+  }
+
+  async #fetchInitSegment(plan: HlsPlan): Promise<Uint8Array> {
+    if (!plan.video.initUrl) {
+      // 音视频分离的 TS 分片需要重新封装才能合并
+      if (plan.audio) throw new Error('暂不支持音视频分离的 TS 分片 HLS 视频');
+      return new Uint8Array(0);
+    }
+    const videoInit = await fetchBinary(plan.video.initUrl);
+    if (!plan.audio?.initUrl) return videoInit;
+
+    const { data, audioTrackId } = mergeInitSegments(
+      videoInit,
+      await fetchBinary(plan.audio.initUrl),
+    );
+    plan.audioTrackId = audioTrackId;
+    return data;
+  }
+
+  /**
+   * 下载第 index 个分片，有独立音轨时把同序号的音频分片接在视频分片之后
+   */
+  async #fetchSegment(plan: HlsPlan, index: number): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    const videoUrl = plan.video.segmentUrls[index];
+    if (videoUrl && isTsPlan(plan)) return await fetchBinary(videoUrl);
+    if (videoUrl) {
+      chunks.push(pickFragments(await fetchBinary(videoUrl)));
+    }
+    const audioUrl = plan.audio?.segmentUrls[index];
+    if (audioUrl) {
+      chunks.push(
+        pickFragments(await fetchBinary(audioUrl), plan.audioTrackId),
+      );
+    }
+    return concatBytes(chunks);
+  }
+
+  async #run(job: HlsJob) {
+    job.running = true;
+    job.status = AriaStatus.Active;
+    job.errorMessage = undefined;
+    this.onDownloadStart.emit(job.gid);
+
+    const isActive = () => job.status === AriaStatus.Active;
+
+    try {
+      if (!job.plan) job.plan = await this.#resolvePlan(job);
+      const { plan } = job;
+
+      // 重新开始的任务（如重启后恢复、失败重试）直接覆盖之前未完成的 .part 文件
+      const partPath = `${await path.join(job.dir, job.out)}.part`;
+      if (job.nextIndex === 0) {
+        const init = await this.#fetchInitSegment(plan);
+        if (!isActive()) return;
+        await fs.createDir(job.dir, { recursive: true });
+        await fs.writeBinaryFile(partPath, init);
+        job.completedLength = init.length;
+      }
+
+      const segmentCount = Math.max(
+        plan.video.segmentUrls.length,
+        plan.audio?.segmentUrls.length || 0,
+      );
+
+      while (job.nextIndex < segmentCount) {
+        if (!isActive()) return;
+        const segment = await this.#fetchSegment(plan, job.nextIndex);
+        // 下载分片期间任务被暂停或删除时丢弃该分片，继续时重新下载
+        if (!isActive()) return;
+        await fs.writeBinaryFile(partPath, segment, { append: true });
+        job.nextIndex++;
+        job.completedLength += segment.length;
+        // 总大小未知，按已下载分片的平均大小估算
+        job.totalLength = Math.round(
+          (job.completedLength / job.nextIndex) * segmentCount,
+        );
+      }
+
+      if (!isActive()) return;
+      const out = await this.#resolveOut(job, plan);
+      await fs.renameFile(partPath, await path.join(job.dir, out));
+      job.out = out;
+      job.totalLength = job.completedLength;
+      job.status = AriaStatus.Complete;
+      this.onDownloadComplete.emit(job.gid);
+    } catch (err: any) {
+      this.#logger.error('Download failed', job.gid, err);
+      if (!isActive()) return;
+      job.status = AriaStatus.Error;
+      job.errorMessage = err?.message || String(err);
+      this.onDownloadError.emit(job.gid);
+    } finally {
+      job.running = false;
+      this.#schedule();
+    }
+  }
+}
+
+export const hlsDownloader = new HlsDownloader();
@@ -1,3 +1,21 @@
 export async function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * 可被中断的延迟，中断时立即结束而不抛出错误
+ */
+export async function abortableDelay(ms: number, signal: AbortSignal) {
+  if (signal.aborted) return;
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
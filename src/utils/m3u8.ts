@@ -0,0 +1,132 @@
+export interface M3u8Rendition {
+  /**
+   * 码率，单位 bps
+   */
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  /**
+   * 独立音轨所在的分组
+   */
+  audioGroupId?: string;
+  url: string;
+}
+
+export interface M3u8AudioTrack {
+  groupId: string;
+  url: string;
+}
+
+export interface M3u8MasterPlaylist {
+  renditions: M3u8Rendition[];
+  audioTracks: M3u8AudioTrack[];
+}
+
+export interface M3u8MediaPlaylist {
+  /**
+   * fMP4 分片的初始化片段，TS 分片没有
+   */
+  initUrl?: string;
+  segmentUrls: string[];
+  /**
+   * 总时长，单位秒
+   */
+  duration: number;
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 解析标签属性，如 BANDWIDTH=256000,RESOLUTION=480x270,CODECS="mp4a.40.2,avc1.4d0015"
+ */
+function parseAttributes(line: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const value = line.slice(line.indexOf(':') + 1);
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(value))) {
+    attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attrs;
+}
+
+export function isMasterPlaylist(text: string): boolean {
+  return text.includes('#EXT-X-STREAM-INF');
+}
+
+/**
+ * 解析主播放列表，得到各清晰度与独立音轨的播放列表地址
+ */
+export function parseMasterPlaylist(
+  text: string,
+  baseUrl: string,
+): M3u8MasterPlaylist {
+  const renditions: M3u8Rendition[] = [];
+  const audioTracks: M3u8AudioTrack[] = [];
+  let streamInf: Record<string, string> | undefined;
+
+  for (const line of splitLines(text)) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      streamInf = parseAttributes(line);
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.TYPE === 'AUDIO' && attrs.URI) {
+        audioTracks.push({
+          groupId: attrs['GROUP-ID'],
+          url: new URL(attrs.URI, baseUrl).href,
+        });
+      }
+    } else if (!line.startsWith('#') && streamInf) {
+      const [width, height] = (streamInf.RESOLUTION || '')
+        .split('x')
+        .map(Number);
+      renditions.push({
+        bandwidth: Number(streamInf.BANDWIDTH) || 0,
+        width: width || undefined,
+        height: height || undefined,
+        codecs: streamInf.CODECS,
+        audioGroupId: streamInf.AUDIO,
+        url: new URL(line, baseUrl).href,
+      });
+      streamInf = undefined;
+    }
+  }
+
+  return { renditions, audioTracks };
+}
+
+/**
+ * 解析媒体播放列表，得到初始化片段与各分片的地址
+ */
+export function parseMediaPlaylist(
+  text: string,
+  baseUrl: string,
+): M3u8MediaPlaylist {
+  let initUrl: string | undefined;
+  const segmentUrls: string[] = [];
+  let duration = 0;
+
+  for (const line of splitLines(text)) {
+    if (line.startsWith('#EXT-X-KEY:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.METHOD && attrs.METHOD !== 'NONE') {
+        throw new Error('不支持加密的 HLS 视频');
+      }
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.URI) initUrl = new URL(attrs.URI, baseUrl).href;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration += parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (!line.startsWith('#')) {
+      segmentUrls.push(new URL(line, baseUrl).href);
+    }
+  }
+
+  return { initUrl, segmentUrls, duration };
+}
@@ -0,0 +1,189 @@
+/**
+ * 合并 HLS 的 fMP4 分片所需的最少 MP4 Box 操作
+ */
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+  headerSize: number;
+}
+
+function getView(data: Uint8Array) {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function readBoxes(data: Uint8Array, start = 0, end = data.length): Mp4Box[] {
+  const view = getView(data);
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error('无法解析的 MP4 数据');
+    }
+
+    boxes.push({
+      type: String.fromCharCode(...data.subarray(offset + 4, offset + 8)),
+      start: offset,
+      end: offset + size,
+      headerSize,
+    });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function readChildren(data: Uint8Array, box: Mp4Box): Mp4Box[] {
+  return readBoxes(data, box.start + box.headerSize, box.end);
+}
+
+function requireBox(boxes: Mp4Box[], type: string): Mp4Box {
+  const box = boxes.find((b) => b.type === type);
+  if (!box) throw new Error(`MP4 数据缺少 ${type}`);
+  return box;
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function buildBox(type: string, children: Uint8Array[]): Uint8Array {
+  const header = new Uint8Array(8);
+  const size = children.reduce((total, child) => total + child.length, 8);
+  getView(header).setUint32(0, size);
+  header.set(
+    Array.from(type, (c) => c.charCodeAt(0)),
+    4,
+  );
+  return concatBytes([header, ...children]);
+}
+
+/**
+ * tkhd、trex、tfhd 中 track_ID 的位置，tkhd 的位置与版本有关
+ */
+function getTrackIdOffset(data: Uint8Array, box: Mp4Box): number {
+  const contentStart = box.start + box.headerSize;
+  if (box.type !== 'tkhd') return contentStart + 4;
+  const version = data[contentStart];
+  return contentStart + 4 + (version === 1 ? 16 : 8);
+}
+
+/**
+ * 复制 Box 并修改其中的 track_ID，path 为从该 Box 到 tkhd、trex 或 tfhd 的路径
+ */
+function copyWithTrackId(
+  data: Uint8Array,
+  box: Mp4Box,
+  path: string[],
+  trackId: number,
+): Uint8Array {
+  const copy = data.slice(box.start, box.end);
+  const patch = (target: Mp4Box, rest: string[]) => {
+    if (rest.length === 0) {
+      getView(copy).setUint32(getTrackIdOffset(copy, target), trackId);
+      return;
+    }
+    readChildren(copy, target)
+      .filter((child) => child.type === rest[0])
+      .forEach((child) => patch(child, rest.slice(1)));
+  };
+  patch(readBoxes(copy)[0], path);
+  return copy;
+}
+
+function getMoovChildren(init: Uint8Array) {
+  const boxes = readBoxes(init);
+  const moov = requireBox(boxes, 'moov');
+  return { boxes, children: readChildren(init, moov) };
+}
+
+/**
+ * 将视频与独立音轨的初始化片段合并为包含两条轨道的初始化片段
+ */
+export function mergeInitSegments(
+  videoInit: Uint8Array,
+  audioInit: Uint8Array,
+): { data: Uint8Array; audioTrackId: number } {
+  const video = getMoovChildren(videoInit);
+  const audio = getMoovChildren(audioInit);
+
+  const videoTrak = requireBox(video.children, 'trak');
+  const videoTkhd = requireBox(readChildren(videoInit, videoTrak), 'tkhd');
+  const audioTrackId =
+    getView(videoInit).getUint32(getTrackIdOffset(videoInit, videoTkhd)) + 1;
+
+  const mvhd = requireBox(video.children, 'mvhd');
+  const newMvhd = videoInit.slice(mvhd.start, mvhd.end);
+  // next_track_ID 位于 mvhd 的最后 4 个字节
+  getView(newMvhd).setUint32(newMvhd.length - 4, audioTrackId + 1);
+
+  const audioTrak = copyWithTrackId(
+    audioInit,
+    requireBox(audio.children, 'trak'),
+    ['tkhd'],
+    audioTrackId,
+  );
+
+  const videoMvex = requireBox(video.children, 'mvex');
+  const audioTrex = requireBox(
+    readChildren(audioInit, requireBox(audio.children, 'mvex')),
+    'trex',
+  );
+  const mvex = buildBox('mvex', [
+    ...readChildren(videoInit, videoMvex).map((b) =>
+      videoInit.slice(b.start, b.end),
+    ),
+    copyWithTrackId(audioInit, audioTrex, [], audioTrackId),
+  ]);
+
+  const moov = buildBox('moov', [
+    newMvhd,
+    ...video.children
+      .filter((b) => b.type !== 'mvhd' && b.type !== 'mvex')
+      .map((b) => videoInit.slice(b.start, b.end)),
+    audioTrak,
+    mvex,
+  ]);
+
+  const ftyp = requireBox(video.boxes, 'ftyp');
+  return {
+    data: concatBytes([videoInit.slice(ftyp.start, ftyp.end), moov]),
+    audioTrackId,
+  };
+}
+
+/**
+ * 只保留分片中的 moof 与 mdat，设置 trackId 时同时修改分片所属的轨道
+ */
+export function pickFragments(
+  segment: Uint8Array,
+  trackId?: number,
+): Uint8Array {
+  return concatBytes(
+    readBoxes(segment)
+      .filter((box) => box.type === 'moof' || box.type === 'mdat')
+      .map((box) =>
+        box.type === 'moof' && trackId !== undefined
+          ? copyWithTrackId(segment, box, ['traf', 'tfhd'], trackId)
+          : segment.slice(box.start, box.end),
+      ),
+  );
+}
@@ -0,0 +1,97 @@
+import { fs, path } from '@tauri-apps/api';
+import MediaType from '../enums/MediaType';
+import { ResponseError } from '../errors/ResponseError';
+import { DownloadOutput } from '../interfaces/DownloadOutput';
+import { FileNameTemplateData } from '../interfaces/FileNameTemplateData';
+import { TwitterUser } from '../interfaces/TwitterUser';
+import { request } from '../ipc/network';
+import { useSettingsStore } from '../stores/settings';
+import { sha256Hex } from './crypto';
+import { resolveVariables } from './file-name-template';
+
+let _log: ICategoriedLogger;
+
+function log() {
+  if (_log) return _log;
+  _log = window.log.category('PROFILE');
+  return _log;
+}
+
+export interface ProfileImagesResult {
+  completeCount: number;
+  skipCount: number;
+}
+
+/**
+ * 头像链接带有 _normal 等尺寸后缀，去掉后为原尺寸；横幅加上 1500x500 为最大尺寸
+ */
+function getProfileImageUrls(user: TwitterUser) {
+  return [
+    {
+      kind: 'avatar',
+      url: user.avatar?.replace(/_(normal|bigger|mini|\d+x\d+)(?=\.\w+$)/, ''),
+    },
+    {
+      kind: 'banner',
+      url: user.banner ? `${user.banner}/1500x500` : undefined,
+    },
+  ];
+}
+
+function detectImageExtension(data: Uint8Array): string {
+  if (data[0] === 0x89 && data[1] === 0x50) return 'png';
+  if (data[0] === 0x47 && data[1] === 0x49) return 'gif';
+  if (String.fromCharCode(...data.subarray(8, 12)) === 'WEBP') return 'webp';
+  return 'jpg';
+}
+
+/**
+ * 把用户的头像与横幅下载到该用户的文件夹中。
+ * 文件名包含内容的哈希，内容未变化时文件已存在，直接跳过
+ */
+export async function downloadProfileImages(
+  user: TwitterUser,
+  output?: DownloadOutput,
+): Promise<ProfileImagesResult> {
+  const { download } = useSettingsStore.getState();
+  const dirTemplate = output?.dirTemplate ?? download.dirTemplate;
+  const result: ProfileImagesResult = { completeCount: 0, skipCount: 0 };
+
+  for (const { kind, url } of getProfileImageUrls(user)) {
+    if (!url) continue;
+
+    try {
+      const res = await request({ method: 'GET', url, responseType: 'binary' });
+      if (res.status !== 200) throw new ResponseError(res.status);
+      const data = new Uint8Array(res.body);
+
+      // 没有推文时按用户解析文件夹模板，推文相关的变量为空
+      const templateData: FileNameTemplateData = {
+        post: { id: '', user },
+        media: { id: kind, type: MediaType.Photo, url },
+      };
+      const dir = await path.join(
+        download.saveDirBase,
+        dirTemplate ? resolveVariables(dirTemplate, templateData) : '',
+      );
+      const hash = (await sha256Hex(data)).slice(0, 16);
+      const fileName = `${user.screenName}-${kind}-${hash}.${detectImageExtension(data)}`;
+      const filePath = await path.join(dir, fileName);
+
+      if (await fs.exists(filePath)) {
+        log().info('Skip unchanged profile image', filePath);
+        result.skipCount++;
+        continue;
+      }
+
+      await fs.createDir(dir, { recursive: true });
+      await fs.writeBinaryFile(filePath, data);
+      log().info('Saved profile image', filePath);
+      result.completeCount++;
+    } catch (err) {
+      log().warn(`Download ${kind} failed`, user.screenName, err);
+    }
+  }
+
+  return result;
+}